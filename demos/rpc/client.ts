@@ -1,4 +1,4 @@
-import {ConnectionInfo, ResponseMessage} from '../../libs/interfaces'
+import {ConnectionInfo} from '../../libs/interfaces'
 import {RealtimeClient} from '../../libs'
 import {getAuthToken, config} from './../config'
 
@@ -22,13 +22,9 @@ const client = new RealtimeClient({
 
 client.on('session.started', async (info: ConnectionInfo) => {
   // request time to server
-  const [res] = await client
-    .send('', {
-      messageType: 'gettime',
-    })
-    .waitForReply()
+  const {time} = await client.call('gettime', '')
 
-  console.log('Server Time:', res as ResponseMessage)
+  console.log('Server Time:', time)
 
   client.disconnect()
 })
@@ -1,8 +1,4 @@
-import {
-  ConnectionInfo,
-  IncomingMessage,
-  ReplyFunction,
-} from './../../libs/interfaces'
+import {ConnectionInfo, IncomingMessage} from './../../libs/interfaces'
 import {RealtimeClient} from './../../libs'
 import {getAuthToken, config} from './../config'
 
@@ -31,16 +27,18 @@ client.on('session.started', async (info: ConnectionInfo) => {
   client.subscribeRemoteTopic('secure/inbound')
 })
 
-client.on('secure/inbound.gettime', async (_, reply: ReplyFunction) => {
-  console.log('Responding to gettime request...')
+client.handle(
+  'secure/inbound',
+  'gettime',
+  async () => {
+    console.log('Responding to gettime request...')
 
-  await reply(
-    {
+    return {
       time: new Date().toISOString(),
-    },
-    'ok',
-  ).waitForAck()
-})
+    }
+  },
+  {timeout: 1000},
+)
 
 client.on('secure/inbound.presence', async (message: IncomingMessage) => {
   if (message.data.payload.status === 'connected') {
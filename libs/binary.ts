@@ -0,0 +1,158 @@
+/**
+ * Content type marking binary values encoded in text frames.
+ */
+export const BINARY_CONTENT_TYPE = 'application/octet-stream'
+
+/**
+ * Binary value encoded in a text frame, as base64 text with a content type marker.
+ */
+interface EncodedBinary {
+  contentType: typeof BINARY_CONTENT_TYPE
+  base64: string
+}
+
+/**
+ * Checks whether a value is plain data that may nest other values, i.e. an array or a plain object.
+ *
+ * @param value - The value to check.
+ * @returns `true` if the value is an array or a plain object.
+ */
+const isContainer = (value: unknown): value is Record<string, unknown> => {
+  if (Array.isArray(value)) {
+    return true
+  } else if (value === null || typeof value !== 'object') {
+    return false
+  }
+
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * Checks whether a value contains `Blob` instances, which must be read before the value is encoded.
+ *
+ * @param value - The value to check, e.g. a message payload.
+ * @returns `true` if the value is a `Blob` or nests one in its arrays and plain objects.
+ */
+export const hasBlobs = (value: unknown): boolean => {
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    return true
+  } else if (isContainer(value)) {
+    return Object.values(value).some(hasBlobs)
+  }
+
+  return false
+}
+
+/**
+ * Reads the `Blob` instances contained in a value.
+ *
+ * @param value - The value to read, e.g. a message payload.
+ * @returns A promise resolving to a copy of the value, with every `Blob` replaced by a `Uint8Array`.
+ */
+export const readBlobs = async (value: unknown): Promise<unknown> => {
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    return new Uint8Array(await value.arrayBuffer())
+  } else if (Array.isArray(value)) {
+    return Promise.all(value.map(readBlobs))
+  } else if (isContainer(value)) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [
+        key,
+        await readBlobs(item),
+      ]),
+    )
+    return Object.fromEntries(entries)
+  }
+
+  return value
+}
+
+/**
+ * Encodes bytes as base64 text.
+ *
+ * @param bytes - The bytes to encode.
+ * @returns The base64 text.
+ */
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  // Convert in chunks, to stay below the maximum number of function arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+
+  return btoa(binary)
+}
+
+/**
+ * Decodes base64 text into bytes.
+ *
+ * @param text - The base64 text.
+ * @returns The decoded bytes.
+ */
+export const fromBase64 = (text: string): Uint8Array => {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+
+  return bytes
+}
+
+/**
+ * `JSON.stringify()` replacer encoding binary values, i.e. `ArrayBuffer` instances and typed arrays,
+ * as base64 text with a content type marker.
+ *
+ * The original value is read from the holder, as `Buffer` instances are already converted by their `toJSON()`.
+ */
+export function binaryReplacer(
+  this: Record<string, unknown>,
+  key: string,
+  value: unknown,
+): unknown {
+  const original = this[key]
+  if (original instanceof ArrayBuffer) {
+    return {
+      contentType: BINARY_CONTENT_TYPE,
+      base64: toBase64(new Uint8Array(original)),
+    } as EncodedBinary
+  } else if (ArrayBuffer.isView(original)) {
+    const {buffer, byteOffset, byteLength} = original
+    return {
+      contentType: BINARY_CONTENT_TYPE,
+      base64: toBase64(new Uint8Array(buffer, byteOffset, byteLength)),
+    } as EncodedBinary
+  }
+
+  return value
+}
+
+/**
+ * `JSON.parse()` reviver decoding the binary values encoded by `binaryReplacer` as `Uint8Array` instances.
+ */
+export const binaryReviver = (key: string, value: unknown): unknown => {
+  if (
+    isContainer(value) &&
+    value.contentType === BINARY_CONTENT_TYPE &&
+    typeof value.base64 === 'string' &&
+    Object.keys(value).length === 2
+  ) {
+    return fromBase64(value.base64)
+  }
+
+  return value
+}
+
+/**
+ * Parses JSON text, decoding the binary values it contains.
+ *
+ * The reviver only runs if the text contains the binary content type marker.
+ *
+ * @param text - The JSON text.
+ * @returns The parsed value.
+ */
+export const parseJSON = (text: string): any =>
+  text.includes(BINARY_CONTENT_TYPE)
+    ? JSON.parse(text, binaryReviver)
+    : JSON.parse(text)
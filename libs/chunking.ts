@@ -0,0 +1,238 @@
+import {ChunkingOptions} from './interfaces'
+import {MessageContext, RealtimeError} from './errors'
+import {binaryReplacer, parseJSON} from './binary'
+import {utf8Length} from './compression'
+
+/**
+ * Content type marking the payload of a chunk message.
+ */
+export const CHUNK_CONTENT_TYPE = 'application/vnd.realtime.chunk'
+
+/**
+ * Payload of a chunk message, carrying a slice of the serialized message payload.
+ */
+export interface Chunk {
+  contentType: typeof CHUNK_CONTENT_TYPE
+  index: number
+  count: number
+  size: number
+  data: Uint8Array
+}
+
+/**
+ * Incoming message being reassembled.
+ */
+interface Transfer {
+  chunks: Uint8Array[]
+  received: number
+  bytes: number
+  size: number
+  timer: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Reassembly state of an incoming message, after one of its chunks is received.
+ */
+export interface ReassemblyProgress {
+  chunks: number
+  count: number
+  size: number
+  complete: boolean
+  payload?: any
+}
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+/**
+ * Checks whether a message payload is a chunk.
+ *
+ * @param payload - The message payload.
+ * @returns `true` if the payload is a chunk.
+ */
+export const isChunk = (payload: any): payload is Chunk =>
+  payload?.contentType === CHUNK_CONTENT_TYPE &&
+  Number.isInteger(payload.index) &&
+  Number.isInteger(payload.count) &&
+  Number.isInteger(payload.size) &&
+  payload.data instanceof Uint8Array
+
+/**
+ * Splits a message payload into chunks, if its serialized size exceeds the chunk size.
+ *
+ * Payloads are serialized as UTF-8 JSON text, binary values included, whatever the wire codec.
+ *
+ * @param payload - The message payload.
+ * @param chunkSize - The maximum serialized size of a chunk in bytes.
+ * @returns The chunks, or `null` if the payload fits in a single message.
+ */
+export const splitPayload = (
+  payload: unknown,
+  chunkSize: number,
+): Chunk[] | null => {
+  const text = JSON.stringify(payload, binaryReplacer)
+  if (text === undefined || utf8Length(text) <= chunkSize) {
+    return null
+  }
+
+  const bytes = textEncoder.encode(text)
+  const count = Math.ceil(bytes.length / chunkSize)
+
+  return Array.from({length: count}, (_, index) => ({
+    contentType: CHUNK_CONTENT_TYPE,
+    index,
+    count,
+    size: bytes.length,
+    data: bytes.subarray(index * chunkSize, (index + 1) * chunkSize),
+  }))
+}
+
+/**
+ * Reassembles the payloads of incoming chunked messages, keyed by sender and message id.
+ *
+ * Bounds the total size of the messages being reassembled, and discards the messages
+ * whose chunks do not all arrive in time.
+ */
+export class Reassembler {
+  private transfers: Map<string, Transfer> = new Map()
+  private pendingBytes: number = 0
+  private timeout: number
+  private maxPendingBytes: number
+  private onExpire: (error: RealtimeError) => void
+
+  /**
+   * Initializes a new instance of the `Reassembler` class.
+   *
+   * @param options - The reassembly timeout and memory cap. Default to `30000` ms and 16 MiB.
+   * @param onExpire - Receives the error of each message discarded because its chunks did not all arrive in time.
+   */
+  constructor(
+    options: ChunkingOptions = {},
+    onExpire: (error: RealtimeError) => void,
+  ) {
+    this.timeout = options.reassemblyTimeout ?? 30000
+    this.maxPendingBytes = options.maxPendingBytes ?? 16 * 1024 * 1024
+    this.onExpire = onExpire
+  }
+
+  /**
+   * Adds a chunk to the message it belongs to. Duplicate chunks are ignored.
+   *
+   * @param key - Identifies the message among every message being reassembled, e.g. its sender and id.
+   * @param chunk - The chunk.
+   * @param context - The message identifier, topic and type.
+   * @returns The reassembly state of the message, carrying the payload once every chunk is received.
+   *
+   * @throws `RealtimeError` if the chunk is inconsistent with the message, the chunks received exceed the payload
+   * size, or the memory cap would be exceeded. The message is discarded in every case.
+   */
+  add(key: string, chunk: Chunk, context: MessageContext): ReassemblyProgress {
+    const {index, count, size, data} = chunk
+    let transfer = this.transfers.get(key)
+
+    if (!transfer) {
+      if (size > this.maxPendingBytes - this.pendingBytes) {
+        throw new RealtimeError(
+          'Chunked message exceeds the reassembly memory cap',
+          context,
+        )
+      }
+
+      transfer = {
+        chunks: new Array(count),
+        received: 0,
+        bytes: 0,
+        size,
+        timer: setTimeout(() => {
+          this.delete(key)
+          this.onExpire(
+            new RealtimeError('Chunked message reassembly timed out', context),
+          )
+        }, this.timeout),
+      }
+      this.transfers.set(key, transfer)
+      this.pendingBytes += size
+    }
+
+    if (
+      count !== transfer.chunks.length ||
+      size !== transfer.size ||
+      index < 0 ||
+      index >= count
+    ) {
+      this.delete(key)
+      throw new RealtimeError('Inconsistent message chunk', context)
+    }
+
+    if (!transfer.chunks[index]) {
+      // The chunks are kept within the claimed size, which is counted against the memory cap
+      if (transfer.bytes + data.length > size) {
+        this.delete(key)
+        throw new RealtimeError(
+          'Message chunks exceed the payload size',
+          context,
+        )
+      }
+      transfer.chunks[index] = data
+      transfer.received++
+      transfer.bytes += data.length
+    }
+
+    const progress: ReassemblyProgress = {
+      chunks: transfer.received,
+      count,
+      size,
+      complete: transfer.received === count,
+    }
+    if (progress.complete) {
+      this.delete(key)
+      progress.payload = parseJSON(textDecoder.decode(concat(transfer)))
+    }
+
+    return progress
+  }
+
+  /**
+   * Discards every message being reassembled.
+   */
+  clear(): void {
+    for (const key of [...this.transfers.keys()]) {
+      this.delete(key)
+    }
+  }
+
+  /**
+   * Discards a message being reassembled.
+   *
+   * @param key - The message key.
+   */
+  private delete(key: string): void {
+    const transfer = this.transfers.get(key)
+    if (transfer) {
+      clearTimeout(transfer.timer)
+      this.transfers.delete(key)
+      this.pendingBytes -= transfer.size
+    }
+  }
+}
+
+/**
+ * Concatenates the chunks of a message.
+ *
+ * @param transfer - The message, with every chunk received.
+ * @returns The serialized payload.
+ * @throws `RangeError` if the chunk sizes do not add up to the payload size.
+ */
+const concat = (transfer: Transfer): Uint8Array => {
+  const bytes = new Uint8Array(transfer.size)
+  let offset = 0
+  for (const chunk of transfer.chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  if (offset !== transfer.size) {
+    throw new RangeError('Message chunks do not match the payload size')
+  }
+
+  return bytes
+}
@@ -1,13 +1,191 @@
-import {CancelablePromise, EventEmitter2, WaitForOptions} from 'eventemitter2'
 import {
+  CancelablePromise,
+  EventEmitter2,
+  event,
+  eventNS,
+  Listener,
+  ListenerFn,
+  OnOptions,
+} from 'eventemitter2'
+import {
+  ConnectionInfo,
+  ConnectionState,
   MessageOptions,
   IncomingMessage,
   ClientOptions,
   ResponseMessage,
   ReplyFunction,
   WaitForFactory,
+  WaitForReplyOptions,
+  WaitOptions,
+  WaitForRepliesOptions,
+  CollectedReply,
+  ReplyStream,
+  ReplyStreamOptions,
+  StateChangeEvent,
+  PendingRequestInfo,
+  RequestHandler,
+  HandleOptions,
+  CallOptions,
+  ClientEvents,
+  MessageListener,
+  MessageDefinition,
+  MessageSchema,
+  SchemaEvent,
+  SchemaMatch,
+  SchemaMessageType,
+  SchemaPayload,
+  SchemaReply,
+  SchemaTopic,
+  Validator,
+  ValidationIssue,
+  InvalidMessageEvent,
+  ChunkProgressEvent,
+  DeliveryFailedEvent,
+  DeliveryReport,
+  DuplicateMessageEvent,
+  StaleConnectionEvent,
+  Middleware,
+  OutboundFrame,
+  Codec,
+  PermissionAction,
+  StreamOptions,
+  Transport,
+  TransportCloseEvent,
+  TransportMessageEvent,
 } from './interfaces'
-import ReconnectingWebSocket from 'reconnecting-websocket'
+import {OutboundQueue} from './queue'
+import {PendingRequest, PendingRequests} from './requests'
+import {Validators} from './validation'
+import {Pipeline} from './middleware'
+import {jsonCodec, msgpackCodec} from './codecs'
+import {hasBlobs, readBlobs} from './binary'
+import {isChunk, Reassembler, splitPayload} from './chunking'
+import {Deduplicator} from './deduplication'
+import {Heartbeat} from './heartbeat'
+import {Permissions} from './permissions'
+import {tokenExpiry, tokenPermissions} from './token'
+import {WebSocketTransport} from './transport'
+import {
+  compress,
+  decompress,
+  detectCompression,
+  utf8Length,
+} from './compression'
+import {
+  AbortError,
+  AckTimeoutError,
+  ConnectionClosedError,
+  ConnectionError,
+  ConnectTimeoutError,
+  DeliveryError,
+  DeserializationError,
+  MessageContext,
+  PermissionDeniedError,
+  RealtimeError,
+  RemoteError,
+  ReplyTimeoutError,
+  TimeoutError,
+  ValidationError,
+  serializeError,
+} from './errors'
+
+/**
+ * Outbound frame buffered while no session is active.
+ */
+interface QueuedFrame {
+  frame: OutboundFrame
+  context: MessageContext
+  resolve: () => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Settles a wait, either rejecting with the given error or resolving with the given value.
+ */
+type Settle<T> = (error: Error | null, value?: T) => void
+
+/**
+ * Pending `connect()` call, settled when the session starts or the connection fails.
+ */
+interface ConnectRequest {
+  resolve: (connection: ConnectionInfo) => void
+  reject: (error: Error) => void
+  timer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * WebSocket URL resolved through the `urlProvider`, with the expiry and permissions of its access token.
+ */
+interface Endpoint {
+  url: string
+  expiresAt: number | null
+  permissions: Permissions | null
+}
+
+/**
+ * Connection opened to renew the session, replacing the current connection once its session starts.
+ */
+interface Standby {
+  transport: Transport
+  endpoint: Endpoint
+}
+
+/**
+ * Checks whether a close code reports a policy decision of the gateway, e.g. missing permissions (`1008`)
+ * or an application-defined refusal (`4000`-`4999`), which reconnecting does not fix.
+ *
+ * @param code - The close code.
+ * @returns `true` for policy close codes.
+ */
+const isPolicyClose = (code: number): boolean =>
+  code === 1008 || (code >= 4000 && code <= 4999)
+
+/**
+ * Marks the rejection of a promise as handled, to avoid unhandled rejections when it is reported elsewhere,
+ * e.g. through the `WaitFor` methods returned to the caller or the `'delivery.failed'` event.
+ *
+ * @param promise - The promise.
+ * @returns The same promise.
+ */
+const quiet = <T>(promise: Promise<T>): Promise<T> => {
+  promise.catch(() => {})
+  return promise
+}
+
+/**
+ * Sends a reply to the sender of the given incoming message.
+ *
+ * @param client - The `RealtimeClient` instance used to send the reply.
+ * @param message - The incoming message to which the reply is responding.
+ * @param response - The reply status, payload and optional stream sequence fields.
+ * @param options - Optional message options for the reply.
+ * @returns A `WaitForFactory` instance to wait for acknowledgements.
+ * @throws Error if the connection ID is not available in the incoming message.
+ */
+const sendReply = (
+  client: RealtimeClient<any>,
+  message: IncomingMessage,
+  response: Omit<ResponseMessage, 'id'>,
+  options?: MessageOptions,
+): WaitForFactory => {
+  const connectionId = message.data.client?.connectionId
+  if (connectionId) {
+    return client.publish(
+      `priv/${connectionId}`,
+      {
+        ...response,
+        id: message.data.id,
+      } as ResponseMessage,
+      {
+        messageType: 'response',
+        compress: options?.compress,
+      },
+    )
+  } else {
+    throw new Error('Connection ID is not available in the message')
+  }
+}
 
 /**
  * Creates a reply function for the given client and message.
@@ -20,31 +198,89 @@ import ReconnectingWebSocket from 'reconnecting-websocket'
  * @returns A `ReplyFunction` that sends a reply message.
  * @throws Error if the connection ID is not available in the incoming message.
  */
-const reply =
-  (client: RealtimeClient, message: IncomingMessage): ReplyFunction =>
-  (
+const reply = (
+  client: RealtimeClient<any>,
+  message: IncomingMessage,
+): ReplyFunction => {
+  const fn = (
     data: any,
     status: string = 'ok',
     options?: MessageOptions,
-  ): WaitForFactory => {
-    const connectionId = message.data.client?.connectionId
-    if (connectionId) {
-      return client.publish(
-        `priv/${connectionId}`,
-        {
-          data,
-          status,
-          id: message.data.id,
-        } as ResponseMessage,
-        {
-          messageType: 'response',
-          compress: options?.compress,
-        },
-      )
-    } else {
-      throw new Error('Connection ID is not available in the message')
+  ): WaitForFactory => sendReply(client, message, {data, status}, options)
+
+  return Object.assign(fn, {
+    stream: (): ReplyStream => new ReplyStreamWriter(client, message),
+  })
+}
+
+/**
+ * Class representing a stream of replies to a single incoming message.
+ *
+ * Every reply carries a sequence number, so the requester can consume them in order
+ * through `replyStream()`. The stream is closed by `end()` or `error()`.
+ */
+class ReplyStreamWriter implements ReplyStream {
+  private client: RealtimeClient<any>
+  private message: IncomingMessage
+  private seq: number = 0
+  private closed: boolean = false
+
+  /**
+   * Initializes a new instance of the `ReplyStreamWriter` class.
+   *
+   * @param client - The `RealtimeClient` instance used to send the replies.
+   * @param message - The incoming message to which the replies are responding.
+   */
+  constructor(client: RealtimeClient<any>, message: IncomingMessage) {
+    this.client = client
+    this.message = message
+  }
+
+  write(chunk: any, options?: MessageOptions): WaitForFactory {
+    return this.next(chunk, 'ok', false, options)
+  }
+
+  end(final?: any, options?: MessageOptions): WaitForFactory {
+    return this.next(final, 'ok', true, options)
+  }
+
+  error(err: any, options?: MessageOptions): WaitForFactory {
+    return this.next(serializeError(err), 'error', true, options)
+  }
+
+  /**
+   * Sends the next reply of the stream.
+   *
+   * @param data - The reply payload.
+   * @param status - The reply status.
+   * @param done - Whether this reply closes the stream.
+   * @param options - Optional message options for the reply.
+   * @returns A `WaitForFactory` instance to wait for acknowledgements.
+   * @throws `RealtimeError` if the stream is already closed.
+   */
+  private next(
+    data: any,
+    status: string,
+    done: boolean,
+    options?: MessageOptions,
+  ): WaitForFactory {
+    if (this.closed) {
+      throw new RealtimeError('Reply stream is already closed', {
+        id: this.message.data.id,
+        topic: this.message.topic,
+        messageType: this.message.messageType,
+      })
     }
+    this.closed = done
+
+    return sendReply(
+      this.client,
+      this.message,
+      {data, status, seq: this.seq++, done},
+      options,
+    )
   }
+}
 
 /**
  * Class representing a factory for waiting on acknowledgements or replies.
@@ -53,43 +289,431 @@ const reply =
  * or replies from other subscribers or backend services. It is used in conjunction with
  * message publishing and sending methods to ensure reliable communication.
  */
-class WaitFor implements WaitForFactory {
-  private client: RealtimeClient
-  private options: MessageOptions
+class WaitFor<Reply = any> implements WaitForFactory<Reply> {
+  private client: RealtimeClient<any>
+  private context: MessageContext
+  private delivery: Promise<void>
+  private pending: PendingRequests
+  private signal?: AbortSignal
+  private acks: number = 1
+  private delivered?: Promise<DeliveryReport>
 
   /**
    * Initializes a new instance of the `WaitFor` class.
    *
    * @param client - The `RealtimeClient` instance associated with this factory.
-   * @param options - The message options used for publishing or sending messages.
+   * @param context - The identifier, topic and type of the published or sent message.
+   * @param delivery - A promise that resolves once the message is handed to the WebSocket,
+   * or rejects if it is dropped from the outbound queue.
+   * @param pending - The registry tracking in-flight requests of the client.
+   * @param signal - The message abort signal, which also cancels every wait.
+   * @param acks - The number of acknowledgements expected, one per chunk for chunked messages, or a promise
+   * resolving to it once the message is split.
+   * @param delivered - The at-least-once delivery of the message, if enabled.
    */
-  constructor(client: RealtimeClient, options: MessageOptions) {
+  constructor(
+    client: RealtimeClient<any>,
+    context: MessageContext,
+    delivery: Promise<void>,
+    pending: PendingRequests,
+    signal?: AbortSignal,
+    acks: number | Promise<number> = 1,
+    delivered?: Promise<DeliveryReport>,
+  ) {
     this.client = client
-    this.options = options
+    this.context = context
+    this.delivery = delivery
+    this.pending = pending
+    this.signal = signal
+    this.delivered = delivered
+    if (acks instanceof Promise) {
+      // Resolved before the message is sent, so before any acknowledgement arrives
+      acks.then((count) => (this.acks = count)).catch(() => {})
+    } else {
+      this.acks = acks
+    }
+  }
+
+  waitForAck(
+    timeout: number = 5000,
+    options: WaitOptions = {},
+  ): CancelablePromise<any[]> {
+    let acks = 0
+
+    return this.waitForEvents<any[]>({
+      kind: 'ack',
+      event: `ack.${this.context.id}`,
+      timeout,
+      signal: options.signal,
+      onEvent: (args, settle) => {
+        // Chunked messages are acknowledged once every chunk is
+        if (++acks >= this.acks) {
+          settle(null, args)
+        }
+      },
+      onTimeout: (settle) => settle(new AckTimeoutError(timeout, this.context)),
+    })
   }
 
-  waitForAck(timeout: number = 5000): CancelablePromise<any[]> {
-    return this.client.waitFor(`ack.${this.options.id}`, {
+  waitForReply(
+    timeout: number = 5000,
+    options: WaitForReplyOptions = {},
+  ): CancelablePromise<[ResponseMessage<Reply>, IncomingMessage]> {
+    return this.waitForEvents<[ResponseMessage<Reply>, IncomingMessage]>({
+      kind: 'reply',
+      event: `response.${this.context.id}`,
       timeout,
-    } as WaitForOptions)
+      signal: options.signal,
+      onEvent: (args, settle) => {
+        const [res, message] = args
+        settle(
+          options.rejectOnError && res.status !== 'ok'
+            ? new RemoteError(res, this.context)
+            : null,
+          [res, message],
+        )
+      },
+      onTimeout: (settle) =>
+        settle(new ReplyTimeoutError(timeout, this.context)),
+    })
   }
 
-  waitForReply(timeout: number = 5000): CancelablePromise<any[]> {
-    return this.client.waitFor(`response.${this.options.id}`, {
+  waitForDelivery(): Promise<DeliveryReport> {
+    if (this.delivered) {
+      return this.delivered
+    }
+
+    return this.waitForAck().then(
+      () => ({id: this.context.id, attempts: 1}),
+      (error: Error) => {
+        throw error instanceof AbortError
+          ? error
+          : new DeliveryError(1, error, this.context)
+      },
+    )
+  }
+
+  waitForReplies(
+    options: WaitForRepliesOptions<Reply> = {},
+  ): CancelablePromise<CollectedReply<Reply>[]> {
+    const {count = Infinity, timeout = 5000, until} = options
+    const replies: CollectedReply<Reply>[] = []
+
+    return this.waitForEvents<CollectedReply<Reply>[]>({
+      kind: 'reply',
+      event: `response.${this.context.id}`,
       timeout,
-    } as WaitForOptions)
+      signal: options.signal,
+      onEvent: ([response, message], settle) => {
+        const reply: CollectedReply<Reply> = {
+          response,
+          connectionId: message?.data.client?.connectionId,
+        }
+        replies.push(reply)
+
+        if (replies.length >= count || until?.(reply, replies)) {
+          settle(null, replies)
+        }
+      },
+      onTimeout: (settle) => settle(null, replies),
+    })
+  }
+
+  replyStream(
+    options: ReplyStreamOptions = {},
+  ): AsyncIterableIterator<ResponseMessage<Reply>> {
+    const {idleTimeout = 5000} = options
+    const pending: Map<number, ResponseMessage<Reply>> = new Map()
+    const ready: ResponseMessage<Reply>[] = []
+    let seq = 0
+    let finished = false
+    let closed = false
+    let failure: Error | null = null
+    let notify = () => {}
+
+    const wait = this.waitForEvents<void>({
+      kind: 'reply',
+      event: `response.${this.context.id}`,
+      timeout: idleTimeout,
+      idle: true,
+      signal: options.signal,
+      onEvent: ([res]: [ResponseMessage<Reply>], settle) => {
+        if (res.seq < seq) {
+          // Duplicate of a reply already released
+          return
+        }
+        // Replies sent without a sequence number end the stream right away
+        pending.set(res.seq ?? seq, {
+          ...res,
+          done: res.done ?? res.seq === undefined,
+        })
+
+        // Release replies in sequence order, holding back the ones arriving early
+        while (pending.has(seq)) {
+          const next = pending.get(seq)
+          pending.delete(seq)
+          ready.push(next)
+          seq++
+
+          if (next.done) {
+            settle(null)
+            break
+          }
+        }
+        notify()
+      },
+      onTimeout: (settle) =>
+        settle(new ReplyTimeoutError(idleTimeout, this.context)),
+    })
+    wait
+      .then(
+        () => (finished = true),
+        (error: Error) => (failure = error),
+      )
+      .then(() => notify())
+
+    const next = async (): Promise<IteratorResult<ResponseMessage<Reply>>> => {
+      while (true) {
+        if (closed) {
+          return {value: undefined, done: true}
+        } else if (ready.length > 0) {
+          const res = ready.shift()
+          if (res.status === 'error') {
+            throw new RemoteError(res, this.context)
+          }
+          return {value: res, done: false}
+        } else if (failure) {
+          throw failure
+        } else if (finished) {
+          return {value: undefined, done: true}
+        }
+        await new Promise<void>((resolve) => (notify = resolve))
+      }
+    }
+
+    return {
+      next,
+      return: async () => {
+        closed = true
+        wait.cancel('Reply stream closed')
+        notify()
+        return {value: undefined, done: true}
+      },
+      [Symbol.asyncIterator]() {
+        return this
+      },
+    }
+  }
+
+  /**
+   * Waits for the given event, starting the timeout once the message has been delivered.
+   *
+   * Once delivered, the wait is tracked as an in-flight request, so it can be rejected early if the connection drops.
+   * Aborting either the wait signal or the message signal cancels the wait.
+   *
+   * @param options - The wait settings:
+   * - `kind`: whether an acknowledgement or a reply is being waited for.
+   * - `event`: the event to wait for.
+   * - `timeout`: the maximum duration to wait in milliseconds, counted from delivery.
+   * - `idle`: restarts the timeout on every occurrence of the event.
+   * - `signal`: optional signal to cancel the wait.
+   * - `onEvent`: handles every occurrence of the event, settling the wait when done.
+   * - `onTimeout`: settles the wait when the timeout expires.
+   * @returns A `CancelablePromise` resolving with the value the wait is settled with.
+   */
+  private waitForEvents<T>(options: {
+    kind: 'ack' | 'reply'
+    event: string
+    timeout: number
+    idle?: boolean
+    signal?: AbortSignal
+    onEvent: (args: any[], settle: Settle<T>) => void
+    onTimeout: (settle: Settle<T>) => void
+  }): CancelablePromise<T> {
+    const {kind, event, timeout, idle, onEvent, onTimeout} = options
+    let settled = false
+    let timer: ReturnType<typeof setTimeout>
+    let request: PendingRequest
+    let settle: Settle<T>
+    const signals = [this.signal, options.signal].filter(Boolean)
+    const onAbort = (abort: Event) =>
+      settle(new AbortError((abort.target as AbortSignal).reason, this.context))
+    const startTimer = () => {
+      clearTimeout(timer)
+      if (timeout > 0) {
+        timer = setTimeout(() => onTimeout(settle), timeout)
+      }
+    }
+
+    const promise = new Promise<T>((resolve, reject) => {
+      settle = (error, value) => {
+        if (settled) {
+          return
+        }
+        settled = true
+        clearTimeout(timer)
+        this.client.off(event, listener)
+        signals.forEach((s) => s.removeEventListener('abort', onAbort))
+        if (request) {
+          this.pending.delete(request)
+        }
+
+        error ? reject(error) : resolve(value)
+      }
+
+      const listener = (...args: any[]) => {
+        if (idle && request) {
+          startTimer()
+        }
+        onEvent(args, settle)
+      }
+      this.client.on(event, listener)
+    }) as CancelablePromise<T>
+
+    const cancel = (reason?: string | Error) => {
+      settle(
+        reason instanceof Error
+          ? reason
+          : new RealtimeError(reason || 'canceled', this.context),
+      )
+      return undefined
+    }
+    promise.cancel = cancel
+
+    const aborted = signals.find((s) => s.aborted)
+    if (aborted) {
+      cancel(new AbortError(aborted.reason, this.context))
+      return promise
+    }
+    signals.forEach((s) => s.addEventListener('abort', onAbort))
+
+    this.delivery.then(
+      () => {
+        if (settled) {
+          return
+        }
+        request = {
+          id: this.context.id,
+          kind,
+          context: this.context,
+          createdAt: Date.now(),
+          reject: cancel,
+        }
+        this.pending.add(request)
+        startTimer()
+      },
+      (error: Error) => cancel(error),
+    )
+
+    return promise
   }
 }
 
+/**
+ * Typed listener registration of the `RealtimeClient`, merged into the class declaration.
+ *
+ * Listeners of the client events get their payload types from `ClientEvents`, and listeners of incoming
+ * messages get their payload and reply types from the client schema. Wildcard listeners get the union
+ * of the matching types. Arbitrary events are only accepted with the default untyped schema.
+ */
+export interface RealtimeClient<
+  Schema extends {[K in keyof Schema]: MessageDefinition} = MessageSchema,
+> {
+  on<Event extends keyof ClientEvents>(
+    event: Event,
+    listener: ClientEvents[Event],
+    options?: boolean | OnOptions,
+  ): this | Listener
+  on<Event extends SchemaEvent<Schema>>(
+    event: Event,
+    listener: MessageListener<
+      SchemaPayload<Schema, SchemaMatch<Schema, Event>>,
+      SchemaReply<Schema, SchemaMatch<Schema, Event>>
+    >,
+    options?: boolean | OnOptions,
+  ): this | Listener
+  on(
+    event: string extends keyof Schema ? event | eventNS : never,
+    listener: ListenerFn,
+    options?: boolean | OnOptions,
+  ): this | Listener
+
+  once<Event extends keyof ClientEvents>(
+    event: Event,
+    listener: ClientEvents[Event],
+    options?: true | OnOptions,
+  ): this | Listener
+  once<Event extends SchemaEvent<Schema>>(
+    event: Event,
+    listener: MessageListener<
+      SchemaPayload<Schema, SchemaMatch<Schema, Event>>,
+      SchemaReply<Schema, SchemaMatch<Schema, Event>>
+    >,
+    options?: true | OnOptions,
+  ): this | Listener
+  once(
+    event: string extends keyof Schema ? event | eventNS : never,
+    listener: ListenerFn,
+    options?: true | OnOptions,
+  ): this | Listener
+
+  off<Event extends keyof ClientEvents>(
+    event: Event,
+    listener: ClientEvents[Event],
+  ): this
+  off<Event extends SchemaEvent<Schema>>(
+    event: Event,
+    listener: MessageListener<
+      SchemaPayload<Schema, SchemaMatch<Schema, Event>>,
+      SchemaReply<Schema, SchemaMatch<Schema, Event>>
+    >,
+  ): this
+  off(
+    event: string extends keyof Schema ? event | eventNS : never,
+    listener: ListenerFn,
+  ): this
+}
+
 /**
  * RealtimeClient class encapsulates WebSocket connection, subscription, and message handling.
  *
  * The `RealtimeClient` is the core class for interacting with the Realtime Pub/Sub service. It manages the WebSocket
  * connection, handles message publishing and subscribing, and provides mechanisms to wait for acknowledgements and replies.
+ *
+ * The optional `Schema` type parameter maps `topic.messageType` keys to payload and reply types,
+ * turning unknown topics or message types into compile errors (see `MessageSchema`).
  */
-export class RealtimeClient extends EventEmitter2 {
-  private ws: ReconnectingWebSocket | null = null
+export class RealtimeClient<
+  Schema extends {[K in keyof Schema]: MessageDefinition} = MessageSchema,
+> extends EventEmitter2 {
+  private transport: Transport | null = null
   private opts: ClientOptions
+  private currentState: ConnectionState = 'idle'
+  private attempt: number = 0
+  private openedAt: number = 0
+  private lastCloseCode?: number
+  private subscriptions: Set<string> = new Set()
+  private streamSubscriptions: Map<string, number> = new Map()
+  private outbound: OutboundQueue<QueuedFrame>
+  private pending: PendingRequests
+  private validators: Validators
+  private reassembler: Reassembler
+  private deduplicator: Deduplicator | null
+  private heartbeat: Heartbeat | null
+  private duplicates: number = 0
+  private codec: Codec
+  private writing: Promise<unknown> = Promise.resolve()
+  private writes = 0
+  private preparing: Promise<unknown> = Promise.resolve()
+  private preparations = 0
+  private reading: Promise<unknown> = Promise.resolve()
+  private outboundPipeline: Pipeline<OutboundFrame> = new Pipeline()
+  private inboundPipeline: Pipeline<IncomingMessage> = new Pipeline()
+  private connectRequest: ConnectRequest | null = null
+  private expiresAt: number | null = null
+  private permissions: Permissions | null = null
+  private renewalTimer?: ReturnType<typeof setTimeout>
+  private standby: Standby | null = null
 
   /**
    * Initializes a new instance of the `RealtimeClient` class.
@@ -99,67 +723,130 @@ export class RealtimeClient extends EventEmitter2 {
   constructor(config: ClientOptions) {
     super({...config.emitterOptions, wildcard: true})
     this.opts = config
+    this.outbound = new OutboundQueue(config.outboundQueue)
+    this.pending = new PendingRequests(config.pendingRequests)
+    this.validators = new Validators(config.validation?.validators)
+    this.deduplicator = config.deduplication
+      ? new Deduplicator(config.deduplication)
+      : null
+    this.heartbeat = config.heartbeat
+      ? new Heartbeat(
+          config.heartbeat,
+          () => this.ping(),
+          (event) => this.onStale(event),
+        )
+      : null
+    this.reassembler = new Reassembler(config.chunking, (error) =>
+      this.reportError(error),
+    )
+    this.codec = config.codec ?? jsonCodec
 
     // Listen for acknowledgment messages from the Messaging Gateway
-    this.on('priv/acks.ack', (message: IncomingMessage) => {
+    super.on('priv/acks.ack', (message: IncomingMessage) => {
       this.opts.logger?.debug('Received ack:', message.data)
       this.emit(`ack.${message.data.data}`)
     })
 
     // Listen for response messages from other subscribers or backend services
-    this.on('*.response', (message: IncomingMessage) => {
+    super.on('*.response', (message: IncomingMessage) => {
       if (message.topic.startsWith('priv/')) {
         this.opts.logger?.debug('Received response:', message.data)
         const res = message.data.payload as ResponseMessage
-        this.emit(`response.${res.id}`, res)
+        const responder = message.data.client?.connectionId
+        if (this.isDuplicate(message, `${res.id}:${responder}:${res.seq}`)) {
+          return
+        }
+        this.emit(`response.${res.id}`, res, message)
       }
     })
 
     // Listen for the 'welcome' message to trigger the 'session.started' event
-    this.on('main.welcome', (message: IncomingMessage) => {
+    super.on('main.welcome', (message: IncomingMessage) => {
       this.opts.logger?.info('Session started!')
+      this.openedAt = Date.now()
+      this.setState('open')
+      this.heartbeat?.start()
+      this.scheduleRenewal()
+
+      // Restore remote subscriptions before notifying listeners
+      const denied: string[] = []
+      for (const topic of this.subscriptions) {
+        if (this.opts.permissionCheck && !this.can('subscribe', topic)) {
+          // Subscribed before the permissions were known, or no longer granted after a token refresh
+          this.subscriptions.delete(topic)
+          this.streamSubscriptions.delete(topic)
+          denied.push(topic)
+        } else {
+          this.sendSubscription('subscribe', topic)
+        }
+      }
+      this.flushOutbound()
 
       this.emit('session.started', message.data.connection)
+      this.settleConnect(null, message.data.connection)
+      for (const topic of denied) {
+        this.reportError(new PermissionDeniedError('subscribe', {topic}))
+      }
     })
   }
 
+  /**
+   * The current connection state.
+   *
+   * - `'idle'`: `connect()` was never called.
+   * - `'connecting'`: the first connection attempt is in progress.
+   * - `'open'`: the session has started, messages are sent right away.
+   * - `'reconnecting'`: the connection was lost and a new attempt is scheduled or in progress.
+   * - `'closing'`: `disconnect()` was called and the connection is being closed.
+   * - `'closed'`: the connection was closed and no further attempts are made.
+   *
+   * Every transition is notified through the `'state.changed'` event.
+   */
+  get state(): ConnectionState {
+    return this.currentState
+  }
+
   /**
    * Establishes a connection to the WebSocket server.
    *
    * Initiates the WebSocket connection using the provided URL from the `urlProvider` function.
    * Sets up event handlers for incoming messages, errors, and closure events.
+   * Connections lost before the session starts are retried as configured by `maxRetries`, until the timeout expires.
+   *
+   * @param timeout - Optional maximum duration in milliseconds to wait for the session to start. Disabled by default.
    *
-   * @returns A promise that resolves when the connection is successfully established.
+   * @returns A promise that resolves with the connection information once the session has started.
    *
-   * @throws `Error` if the WebSocket instance is not initialized or if an error occurs during connection.
+   * @throws `ConnectionClosedError` if the gateway refuses the connection with a policy close code (`1008` or
+   * `4000`-`4999`), or no retry is left, before the session starts.
+   * @throws `ConnectionError` if the `urlProvider` fails before the session starts.
+   * @throws `ConnectTimeoutError` if the session does not start within the specified timeout.
+   *
+   * @example
+   * ```typescript
+   * const connection = await client.connect(10000);
+   * console.log('Connection ID:', connection.id);
+   * ```
    */
-  async connect(): Promise<void> {
-    this.ws = new ReconnectingWebSocket(
-      this.opts.websocketOptions.urlProvider,
-      [],
-      this.opts.websocketOptions,
-    )
-
-    return new Promise((resolve, reject) => {
-      if (!this.ws) {
-        return reject(new Error('WebSocket instance is not initialized'))
-      }
+  async connect(timeout: number = 0): Promise<ConnectionInfo> {
+    this.attempt = 0
+    this.openedAt = 0
+    this.lastCloseCode = undefined
+    this.setState('connecting')
 
-      // Bind the onMessage handler to process incoming WebSocket messages
-      this.ws.onmessage = this.onMessage.bind(this)
+    const transport = this.createTransport()
+    this.transport = transport
 
-      // Handle WebSocket errors
-      this.ws.onerror = (event: ErrorEvent) => {
-        const error = new Error('WebSocket error event')
-        this.handleError(error)
-
-        reject(error)
+    return new Promise((resolve, reject) => {
+      this.connectRequest = {resolve, reject}
+      if (timeout > 0) {
+        this.connectRequest.timer = setTimeout(() => {
+          this.settleConnect(new ConnectTimeoutError(timeout))
+          this.disconnect()
+        }, timeout)
       }
 
-      // Handle WebSocket closure
-      this.ws.onclose = this.handleClose.bind(this)
-
-      resolve()
+      transport.open(() => this.resolveUrl())
     })
   }
 
@@ -167,14 +854,28 @@ export class RealtimeClient extends EventEmitter2 {
    * Disconnects from the WebSocket server.
    *
    * Closes the active WebSocket connection and cleans up resources.
+   * Messages still buffered in the outbound queue are discarded.
    *
    * @returns The `RealtimeClient` instance for method chaining.
    */
-  disconnect(): RealtimeClient {
-    if (this.ws) {
-      this.ws.close()
-      this.ws = null
+  disconnect(): this {
+    this.settleConnect(new ConnectionClosedError('Client disconnected'))
+
+    if (this.transport) {
+      this.setState('closing')
+      this.transport.close()
+      this.transport = null
+      this.setState('closed')
     }
+
+    this.heartbeat?.stop()
+    this.cancelRenewal()
+    this.discardOutbound('Client disconnected')
+    this.reassembler.clear()
+    this.pending.rejectAll(
+      (request) =>
+        new ConnectionClosedError('Client disconnected', request.context),
+    )
     return this
   }
 
@@ -182,35 +883,49 @@ export class RealtimeClient extends EventEmitter2 {
    * Publishes a message to a specified topic.
    *
    * Sends a message payload to the designated topic, allowing subscribers to receive and process it.
+   * If no session is active, the message is buffered in the outbound queue and sent once the session starts,
+   * unless the client is closed.
    * Returns a `WaitForFactory` instance to enable waiting for acknowledgements or replies.
    *
    * @param topic - The topic to publish the message to.
-   * @param payload - The message payload, which can be a string or an object.
-   * @param options - Optional message options, including `id`, `messageType`, and `compress`.
+   * @param payload - The message payload, which can be a string, an object or binary data (`BinaryPayload`).
+   * @param options - Optional message options, including `id`, `messageType`, `compress`, `signal` and `delivery`.
    *
    * @returns A `WaitForFactory` instance to wait for acknowledgements or replies.
    *
-   * @throws `Error` if the WebSocket connection is not established.
+   * @throws `RealtimeError` if the outbound queue is full and its overflow policy is `'reject'`.
+   * @throws `ValidationError` if outbound validation is enabled and the payload is invalid.
+   * @throws `PermissionDeniedError` if the permission check is enabled and the access token does not allow
+   * publishing to the topic.
    *
    * @example
    * ```typescript
    * await client.publish('chat', 'Hello, world!', { messageType: 'text-message' }).waitForAck();
    * ```
    */
-  publish(
-    topic: string,
-    payload: string | Record<string, any>,
-    options?: MessageOptions,
-  ): WaitForFactory {
-    if (!this.ws) {
-      throw new Error('WebSocket connection is not established')
-    }
-
+  publish<
+    Topic extends SchemaTopic<Schema>,
+    MessageType extends SchemaMessageType<Schema, Topic>,
+  >(
+    topic: Topic,
+    payload: SchemaPayload<Schema, `${Topic}.${MessageType}`>,
+    options?: MessageOptions<MessageType>,
+  ): WaitForFactory<SchemaReply<Schema, `${Topic}.${MessageType}`>> {
     options = options || {}
     options.id = options.id || this.getRandomId()
+    this.assertPermission('publish', {
+      id: options.id,
+      topic,
+      messageType: options.messageType,
+    })
+    this.validateOutbound(payload, {
+      id: options.id,
+      topic,
+      messageType: options.messageType,
+    })
 
-    this.ws.send(
-      JSON.stringify({
+    return this.post(
+      {
         type: 'publish',
         data: {
           topic,
@@ -219,28 +934,32 @@ export class RealtimeClient extends EventEmitter2 {
           payload,
           id: options.id,
         },
-      }),
+      },
+      options,
     )
-
-    return new WaitFor(this, options)
   }
 
   /**
    * Sends a message directly to the server.
    *
    * Useful for scenarios where you need to send messages to backend services.
+   * If no session is active, the message is buffered in the outbound queue and sent once the session starts,
+   * unless the client is closed.
    * Returns a `WaitForFactory` instance to enable waiting for acknowledgements or replies.
    *
    * **Reference:**
    * - [WebSocket Inbound Messaging Documentation](https://realtime.21no.de/documentation/#websocket-inbound-messaging)
    *
    *
-   * @param payload - The message payload, which can be a string or an object.
-   * @param options - Optional message options, including `id`, `messageType`, and `compress`.
+   * @param payload - The message payload, which can be a string, an object or binary data (`BinaryPayload`).
+   * @param options - Optional message options, including `id`, `messageType`, `compress`, `signal` and `delivery`.
    *
    * @returns A `WaitForFactory` instance to wait for acknowledgements or replies.
    *
-   * @throws `Error` if the WebSocket connection is not established.
+   * @throws `RealtimeError` if the outbound queue is full and its overflow policy is `'reject'`.
+   * @throws `ValidationError` if outbound validation is enabled and the payload is invalid.
+   * @throws `PermissionDeniedError` if the permission check is enabled and the access token does not allow
+   * publishing to `'secure/inbound'`, the topic messages sent to the server are routed to.
    *
    * @example
    * ```typescript
@@ -248,19 +967,40 @@ export class RealtimeClient extends EventEmitter2 {
    * console.log('Server status:', response.data.status);
    * ```
    */
-  send(
-    payload: string | Record<string, any>,
-    options?: MessageOptions,
-  ): WaitForFactory {
-    if (!this.ws) {
-      throw new Error('WebSocket connection is not established')
-    }
-
+  send<MessageType extends SchemaMessageType<Schema, 'secure/inbound'>>(
+    payload: SchemaPayload<Schema, `secure/inbound.${MessageType}`>,
+    options?: MessageOptions<MessageType>,
+  ): WaitForFactory<SchemaReply<Schema, `secure/inbound.${MessageType}`>> {
     options = options || {}
     options.id = options.id || this.getRandomId()
+    this.assertPermission('publish', {
+      id: options.id,
+      topic: 'secure/inbound',
+      messageType: options.messageType,
+    })
+
+    return this.sendMessage(payload, options)
+  }
+
+  /**
+   * Sends a message directly to the server, without checking the permissions of the access token.
+   *
+   * @param payload - The message payload.
+   * @param options - The message options, with an `id`.
+   * @returns A `WaitForFactory` instance to wait for acknowledgements or replies.
+   *
+   * @throws `RealtimeError` if the outbound queue is full and its overflow policy is `'reject'`.
+   * @throws `ValidationError` if outbound validation is enabled and the payload is invalid.
+   */
+  private sendMessage(payload: any, options: MessageOptions): WaitFor {
+    this.validateOutbound(payload, {
+      id: options.id,
+      topic: 'secure/inbound',
+      messageType: options.messageType,
+    })
 
-    this.ws.send(
-      JSON.stringify({
+    return this.post(
+      {
         type: 'message',
         data: {
           messageType: options.messageType,
@@ -268,163 +1008,1526 @@ export class RealtimeClient extends EventEmitter2 {
           payload,
           id: options.id,
         },
-      }),
+      },
+      options,
     )
-
-    return new WaitFor(this, options)
   }
 
   /**
-   * Subscribes to a remote topic to receive messages.
-   *
-   * Establishes a subscription to the specified topic, enabling the client to receive messages published to it.
+   * Registers a request handler for the given topic and message type.
    *
-   * @param topic - The topic to subscribe to.
+   * The value returned by the handler is sent back as an `'ok'` reply. If the handler throws or rejects,
+   * the error is serialized into its `name` and `message` and sent back as an `'error'` reply.
+   * Requests that do not come from a client connection cannot be replied to, and are ignored.
    *
-   * @returns The `RealtimeClient` instance for method chaining.
+   * @param topic - The topic requests are received on, e.g. `'secure/inbound'`.
+   * @param messageType - The type of the requests to handle.
+   * @param handler - The request handler, receiving the request payload and its context.
+   * @param options - Optional handler settings, e.g. a `timeout` after which an error reply is sent.
    *
-   * @throws `Error` if the WebSocket connection is not established.
+   * @returns A function unregistering the handler.
    *
    * @example
    * ```typescript
-   * client.subscribeRemoteTopic('notifications');
+   * client.handle('secure/inbound', 'gettime', async () => ({time: Date.now()}));
    * ```
    */
-  subscribeRemoteTopic(topic: string): RealtimeClient {
-    if (this.ws) {
-      this.ws.send(
-        JSON.stringify({
-          type: 'subscribe',
-          data: {topic},
-        }),
-      )
+  handle<
+    Topic extends SchemaTopic<Schema>,
+    MessageType extends SchemaMessageType<Schema, Topic>,
+  >(
+    topic: Topic,
+    messageType: MessageType,
+    handler: RequestHandler<
+      SchemaPayload<Schema, `${Topic}.${MessageType}`>,
+      SchemaReply<Schema, `${Topic}.${MessageType}`>
+    >,
+    options: HandleOptions = {},
+  ): () => void {
+    const event = `${topic}.${messageType}`
+    const listener = async (message: IncomingMessage, reply: ReplyFunction) => {
+      const connectionId = message.data.client?.connectionId
+      if (!connectionId) {
+        this.opts.logger?.debug('Ignoring request without client:', message)
+        return
+      }
 
-      return this
-    } else {
-      throw new Error('WebSocket connection is not established')
+      const context = {id: message.data.id, topic, messageType}
+      const controller = new AbortController()
+      let timer: ReturnType<typeof setTimeout>
+
+      try {
+        const result = await Promise.race([
+          handler(message.data.payload, {
+            message,
+            connectionId,
+            signal: controller.signal,
+          }),
+          new Promise<never>((_, reject) => {
+            if (options.timeout > 0) {
+              timer = setTimeout(
+                () => reject(new TimeoutError(options.timeout, context)),
+                options.timeout,
+              )
+            }
+          }),
+        ])
+        reply(result, 'ok')
+      } catch (error) {
+        controller.abort(error)
+        try {
+          reply(serializeError(error), 'error')
+        } catch (replyError) {
+          this.opts.logger?.error('Unable to send error reply:', replyError)
+        }
+      } finally {
+        clearTimeout(timer)
+      }
+    }
+
+    super.on(event, listener)
+    return () => {
+      super.off(event, listener)
     }
   }
 
   /**
-   * Unsubscribes from a previously subscribed topic.
+   * Sends a request and resolves with the data of its reply.
    *
-   * Removes the subscription to the specified topic, stopping the client from receiving further messages from it.
+   * The request is sent to the backend (see `send()`), or published to `options.topic` if set.
+   * Replies with a status other than `'ok'` are turned into a `RemoteError`.
    *
-   * @param topic - The topic to unsubscribe from.
+   * @param messageType - The type of the request, matching the handler registered through `handle()`.
+   * @param payload - The request payload.
+   * @param options - Optional message options, plus the target `topic` and the reply `timeout` (defaults to `5000` ms).
    *
-   * @returns The `RealtimeClient` instance for method chaining.
+   * @returns A promise that resolves with the reply data.
    *
-   * @throws `Error` if the WebSocket connection is not established.
+   * @throws `ReplyTimeoutError` if no reply is received within the timeout.
+   * @throws `RemoteError` if the reply status is not `'ok'`, e.g. because the handler threw an error.
    *
    * @example
    * ```typescript
-   * client.unsubscribeRemoteTopic('notifications');
+   * const {time} = await client.call('gettime', '');
    * ```
    */
-  unsubscribeRemoteTopic(topic: string): RealtimeClient {
-    if (this.ws) {
-      this.ws.send(
-        JSON.stringify({
-          type: 'unsubscribe',
-          data: {topic},
-        }),
-      )
+  async call<
+    MessageType extends SchemaMessageType<Schema, Topic>,
+    Topic extends string = 'secure/inbound',
+  >(
+    messageType: MessageType,
+    payload: SchemaPayload<Schema, `${Topic}.${MessageType}`>,
+    options: CallOptions<Topic> = {},
+  ): Promise<SchemaReply<Schema, `${Topic}.${MessageType}`>> {
+    const {topic, timeout = 5000, ...messageOptions} = options
+    // Types are checked by the signature, forward the request untyped
+    const client = this as RealtimeClient<any>
+    const request: any = payload
+    const waitFor = topic
+      ? client.publish(topic, request, {...messageOptions, messageType})
+      : client.send(request, {...messageOptions, messageType})
 
-      return this
-    } else {
-      throw new Error('WebSocket connection is not established')
-    }
+    const [res] = await waitFor.waitForReply(timeout, {rejectOnError: true})
+    return res.data
   }
 
   /**
-   * Waits for a specified duration before proceeding.
+   * Registers a payload validator for the given topic and message type.
    *
-   * Useful for introducing delays or pacing message sending in your application flow.
+   * Incoming messages failing validation are not delivered to listeners. They are notified through
+   * the `'message.invalid'` event and, if sent by a client, replied to with an `'error'` status
+   * carrying the validation issues (see `ValidationOptions.replyOnInvalid`).
+   * Replaces the validator previously registered for the same topic and message type, if any.
    *
-   * @param ms - The duration to wait in milliseconds.
+   * @param topic - The topic of the messages to validate.
+   * @param messageType - The type of the messages to validate.
+   * @param validator - A plain validator function, or a Standard Schema compatible validator (e.g. a Zod schema).
    *
-   * @returns A promise that resolves after the specified time.
+   * @returns A function unregistering the validator.
    *
    * @example
    * ```typescript
-   * await client.wait(1000); // Wait for 1 second
+   * client.addValidator('clock', 'gettime', (payload) => typeof payload.zone === 'string');
    * ```
    */
-  wait(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms))
+  addValidator<
+    Topic extends SchemaTopic<Schema>,
+    MessageType extends SchemaMessageType<Schema, Topic>,
+  >(topic: Topic, messageType: MessageType, validator: Validator): () => void {
+    const key = `${topic}.${messageType}`
+    this.validators.set(key, validator)
+
+    return () => this.validators.delete(key, validator)
   }
 
   /**
-   * Generates a random identifier string.
+   * Registers a middleware, with an outbound stage, an inbound stage or both.
    *
-   * Utilizes a simple random string generation method to create unique message identifiers.
+   * Outbound stages receive every frame before it is sent, including subscriptions. Inbound stages
+   * receive every incoming message before it is validated and emitted. Stages run in registration
+   * order and may modify the envelope by passing a replacement to `next()`, or drop it by not calling
+   * `next()`. Messages dropped on the way out reject their `waitForAck()`/`waitForReply()` promises.
    *
-   * @returns A random string suitable for use as a message ID.
+   * @param middleware - The middleware to register.
+   *
+   * @returns A function unregistering the middleware.
    *
    * @example
    * ```typescript
-   * const messageId = client.getRandomId();
+   * client.use({
+   *   outbound: async (frame, next) => {
+   *     auditLog.write(frame)
+   *     await next()
+   *   },
+   *   inbound: async (message, next) => {
+   *     if (!blocked.has(message.data.client?.connectionId)) await next()
+   *   },
+   * });
    * ```
    */
-  private getRandomId(): string {
-    return Math.random().toString(36).substring(2)
+  use(middleware: Middleware): () => void {
+    const removers = [
+      middleware.outbound && this.outboundPipeline.add(middleware.outbound),
+      middleware.inbound && this.inboundPipeline.add(middleware.inbound),
+    ]
+
+    return () => removers.forEach((remove) => remove?.())
   }
 
   /**
-   * Handles incoming WebSocket messages.
+   * Subscribes to a remote topic to receive messages.
+   *
+   * Establishes a subscription to the specified topic, enabling the client to receive messages published to it.
+   * The subscription is recorded by the client and automatically restored every time a new session starts,
+   * so it survives reconnects. If no session is active, the subscription is sent once the next session starts.
+   * Topics subscribed by streams are taken over, and stay subscribed once the streams end.
    *
-   * Processes messages received from the WebSocket connection, deserializes them,
-   * and emits appropriate events based on the message topic and type.
+   * @param topic - The topic to subscribe to.
    *
-   * @param event - The message event received from the WebSocket.
+   * @returns The `RealtimeClient` instance for method chaining.
+   *
+   * @throws `PermissionDeniedError` if the permission check is enabled and the access token does not allow
+   * subscribing to the topic.
+   *
+   * @example
+   * ```typescript
+   * client.subscribeRemoteTopic('notifications');
+   * ```
    */
-  private async onMessage(event: MessageEvent): Promise<void> {
-    let messageData: any
+  subscribeRemoteTopic(topic: SchemaTopic<Schema>): this {
+    this.assertPermission('subscribe', {topic})
+    this.streamSubscriptions.delete(topic)
 
-    try {
-      if (this.opts.websocketOptions.messageDeserializer) {
-        // Use custom message deserializer if provided
-        messageData = this.opts.websocketOptions.messageDeserializer(event.data)
-      } else if (event.data instanceof Blob) {
-        // Handle Blob data by converting to text
-        messageData = JSON.parse(await event.data.text())
-      } else if (typeof event.data === 'string') {
-        // Handle string data by parsing JSON
-        messageData = JSON.parse(event.data)
-      } else if (event.data instanceof ArrayBuffer) {
-        // Handle ArrayBuffer data by decoding to string
-        messageData = JSON.parse(new TextDecoder().decode(event.data))
-      } else {
-        throw new Error('Unable to deserialize incoming message')
-      }
-    } catch (error) {
-      // Handle deserialization errors
-      this.handleError(error as Error)
-      return
-    }
+    if (!this.subscriptions.has(topic)) {
+      this.subscriptions.add(topic)
 
-    const {topic, messageType, data} = messageData
-    const messageEvent: IncomingMessage = {
-      topic,
-      messageType,
-      data,
-      compression: typeof event.data !== 'string',
+      if (this.currentState === 'open') {
+        this.sendSubscription('subscribe', topic)
+      }
     }
 
-    this.opts.logger?.debug('> Incoming message:', messageEvent)
-
-    if (messageType) {
-      // Emit an event based on the topic and message type
-      this.emit(
-        `${topic}.${messageType}`,
-        messageEvent,
-        reply(this, messageEvent),
-      )
-    }
+    return this
   }
 
   /**
-   * Handles WebSocket errors by logging and emitting an 'error' event.
+   * Unsubscribes from a previously subscribed topic.
+   *
+   * Removes the subscription to the specified topic, stopping the client from receiving further messages from it.
+   * The topic is also removed from the subscriptions restored on reconnect.
+   *
+   * @param topic - The topic to unsubscribe from.
+   *
+   * @returns The `RealtimeClient` instance for method chaining.
+   *
+   * @example
+   * ```typescript
+   * client.unsubscribeRemoteTopic('notifications');
+   * ```
+   */
+  unsubscribeRemoteTopic(topic: SchemaTopic<Schema>): this {
+    this.subscriptions.delete(topic)
+    this.streamSubscriptions.delete(topic)
+
+    if (this.currentState === 'open') {
+      this.sendSubscription('unsubscribe', topic)
+    }
+
+    return this
+  }
+
+  /**
+   * Consumes the incoming messages matching an event as an async iterator, e.g. `'orders.*'`.
+   *
+   * Messages are buffered until the consumer reads them, up to `bufferSize`, beyond which the `overflow` policy
+   * applies. The stream ends when the consumer exits the loop, on overflow with the `'error'` policy, or when
+   * the signal is aborted; the listener is then removed, and the remote topic is unsubscribed once the last
+   * stream that subscribed it ends, unless the application subscribed it too. Streams survive reconnects.
+   *
+   * @param event - The event to consume, `topic.messageType` with optional wildcards.
+   * @param options - The consumption settings: `bufferSize`, `overflow`, `subscribe` and `signal`.
+   *
+   * @returns An `AsyncIterableIterator<IncomingMessage>` yielding the messages in arrival order.
+   *
+   * @throws `RealtimeError` if `subscribe` is set and the event does not name a single topic,
+   * or from the iteration if the buffer overflows with the `'error'` policy.
+   * @throws `PermissionDeniedError` if `subscribe` is set, the permission check is enabled and the access token
+   * does not allow subscribing to the topic.
+   * @throws `AbortError` from the iteration if the signal is aborted.
+   *
+   * @example
+   * ```typescript
+   * for await (const message of client.stream('orders.*', {subscribe: true, overflow: 'error'})) {
+   *   await processOrder(message.data.payload);
+   * }
+   * ```
+   */
+  stream<Event extends SchemaEvent<Schema>>(
+    event: Event,
+    options: StreamOptions = {},
+  ): AsyncIterableIterator<
+    IncomingMessage<SchemaPayload<Schema, SchemaMatch<Schema, Event>>>
+  > {
+    type Message = IncomingMessage<
+      SchemaPayload<Schema, SchemaMatch<Schema, Event>>
+    >
+    const {bufferSize = 1000, overflow = 'drop-oldest', signal} = options
+    const topic = event.substring(0, event.lastIndexOf('.'))
+    let owned = false
+    if (options.subscribe) {
+      if (!topic || topic.includes('*')) {
+        throw new RealtimeError('Cannot subscribe to a topic pattern', {
+          topic: event,
+        })
+      }
+      owned = this.holdSubscription(topic)
+    }
+
+    const buffer: Message[] = []
+    let ended = false
+    let failure: Error | null = null
+    let notify = () => {}
+
+    const end = (error: Error | null) => {
+      if (ended) {
+        return
+      }
+      ended = true
+      failure = error
+      super.off(event, listener)
+      signal?.removeEventListener('abort', onAbort)
+      if (owned) {
+        this.releaseSubscription(topic)
+      }
+      notify()
+    }
+    const listener = (message: Message) => {
+      if (buffer.length >= bufferSize) {
+        if (overflow === 'drop-newest') {
+          return
+        } else if (overflow === 'drop-oldest') {
+          buffer.shift()
+        } else {
+          end(
+            new RealtimeError('Stream buffer overflow', {
+              id: message.data?.id,
+              topic: message.topic,
+              messageType: message.messageType,
+            }),
+          )
+          return
+        }
+      }
+      buffer.push(message)
+      notify()
+    }
+    const onAbort = () => {
+      // Aborting discards the buffered messages
+      buffer.length = 0
+      end(new AbortError(signal.reason, {topic}))
+    }
+
+    super.on(event, listener)
+    signal?.addEventListener('abort', onAbort)
+    if (signal?.aborted) {
+      onAbort()
+    }
+
+    const next = async (): Promise<IteratorResult<Message>> => {
+      while (true) {
+        if (buffer.length > 0) {
+          return {value: buffer.shift(), done: false}
+        } else if (failure) {
+          const error = failure
+          failure = null
+          throw error
+        } else if (ended) {
+          return {value: undefined, done: true}
+        }
+        await new Promise<void>((resolve) => (notify = resolve))
+      }
+    }
+
+    return {
+      next,
+      return: async () => {
+        buffer.length = 0
+        end(null)
+        return {value: undefined, done: true}
+      },
+      [Symbol.asyncIterator]() {
+        return this
+      },
+    }
+  }
+
+  /**
+   * Subscribes a stream to a remote topic, unless the application subscribed it. Subscriptions made by streams
+   * are reference-counted, so the topic stays subscribed until the last stream holding it ends.
+   *
+   * @param topic - The topic.
+   * @returns Whether the stream holds the subscription, and must release it once it ends.
+   *
+   * @throws `PermissionDeniedError` if the permission check is enabled and the access token does not allow
+   * subscribing to the topic.
+   */
+  private holdSubscription(topic: string): boolean {
+    this.assertPermission('subscribe', {topic})
+    const holders = this.streamSubscriptions.get(topic)
+    if (holders) {
+      this.streamSubscriptions.set(topic, holders + 1)
+      return true
+    }
+    if (this.subscriptions.has(topic)) {
+      return false
+    }
+
+    this.subscribeRemoteTopic(topic as SchemaTopic<Schema>)
+    this.streamSubscriptions.set(topic, 1)
+    return true
+  }
+
+  /**
+   * Releases the subscription held by a stream, unsubscribing from the topic once no stream holds it,
+   * unless the application took it over meanwhile.
+   *
+   * @param topic - The topic.
+   */
+  private releaseSubscription(topic: string): void {
+    const holders = this.streamSubscriptions.get(topic)
+    if (holders > 1) {
+      this.streamSubscriptions.set(topic, holders - 1)
+    } else if (holders === 1) {
+      this.unsubscribeRemoteTopic(topic as SchemaTopic<Schema>)
+    }
+  }
+
+  /**
+   * Returns the remote topics the client is currently subscribed to.
+   *
+   * These are the topics restored automatically whenever a new session starts.
+   *
+   * @returns An array with the subscribed topics, in subscription order.
+   *
+   * @example
+   * ```typescript
+   * console.log(client.getSubscriptions()); // ['notifications']
+   * ```
+   */
+  getSubscriptions(): string[] {
+    return [...this.subscriptions]
+  }
+
+  /**
+   * Checks whether the access token of the current session allows an action on a topic.
+   *
+   * Permissions are read from the `permissions` claim of the JWT in the URL given by the `urlProvider`,
+   * or from the `permissions` of the `ConnectionEndpoint` it returns. The check is local: the Messaging Gateway
+   * remains the authority.
+   *
+   * @param action - The action, `'publish'` or `'subscribe'`.
+   * @param topic - The topic.
+   *
+   * @returns `true` if the action is allowed, or if the permissions are not known yet (e.g. before connecting).
+   *
+   * @example
+   * ```typescript
+   * if (client.can('subscribe', 'secure/orders')) {
+   *   client.subscribeRemoteTopic('secure/orders');
+   * }
+   * ```
+   */
+  can(action: PermissionAction, topic: string): boolean {
+    return this.permissions?.can(action, topic) ?? true
+  }
+
+  /**
+   * Describes the acknowledgements and replies currently being waited for.
+   *
+   * Useful for debugging slow or unresponsive peers. Requests are listed oldest first.
+   *
+   * @returns The id, kind, topic, message type and age of each in-flight request.
+   *
+   * @example
+   * ```typescript
+   * const pending = client.getPendingRequests();
+   * console.log(`${pending.length} pending, oldest: ${pending[0]?.age}ms`);
+   * ```
+   */
+  getPendingRequests(): PendingRequestInfo[] {
+    return this.pending.list()
+  }
+
+  /**
+   * Waits for a specified duration before proceeding.
+   *
+   * Useful for introducing delays or pacing message sending in your application flow.
+   *
+   * @param ms - The duration to wait in milliseconds.
+   *
+   * @returns A promise that resolves after the specified time.
+   *
+   * @example
+   * ```typescript
+   * await client.wait(1000); // Wait for 1 second
+   * ```
+   */
+  wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+  }
+
+  /**
+   * Generates a random identifier string.
+   *
+   * Utilizes a simple random string generation method to create unique message identifiers.
+   *
+   * @returns A random string suitable for use as a message ID.
+   *
+   * @example
+   * ```typescript
+   * const messageId = client.getRandomId();
+   * ```
+   */
+  private getRandomId(): string {
+    return Math.random().toString(36).substring(2)
+  }
+
+  /**
+   * Resolves the WebSocket URL through the configured `urlProvider`.
+   *
+   * If the provider fails, the connection is torn down and the pending `connect()` call is rejected,
+   * since the transport cannot recover from a failed URL resolution.
+   *
+   * @returns A promise that resolves to the WebSocket URL.
+   */
+  private async resolveUrl(): Promise<string> {
+    this.attempt = this.transport?.retryCount ?? 0
+
+    try {
+      const {url, expiresAt, permissions} = await this.provideEndpoint()
+      this.expiresAt = expiresAt
+      this.permissions = permissions
+      return url
+    } catch (cause) {
+      const error = new ConnectionError('URL provider failed', {cause})
+      const pending = this.connectRequest !== null
+
+      this.settleConnect(error)
+      this.disconnect()
+      if (!pending) {
+        this.handleError(error)
+      }
+
+      // The socket is closed at this point, the URL is never used
+      return ''
+    }
+  }
+
+  /**
+   * Calls the configured `urlProvider`, learning the expiry and permissions of the access token embedded in the URL.
+   *
+   * @returns The WebSocket URL, the token expiry as a timestamp in milliseconds and the token permissions,
+   * `null` if unknown.
+   */
+  private async provideEndpoint(): Promise<Endpoint> {
+    const endpoint = await this.opts.websocketOptions.urlProvider()
+    const {url, expiresAt, permissions} =
+      typeof endpoint === 'string' ? {url: endpoint} : endpoint
+    const granted = permissions ?? tokenPermissions(url)
+
+    return {
+      url,
+      expiresAt: expiresAt != null ? Number(expiresAt) : tokenExpiry(url),
+      permissions: granted ? new Permissions(granted) : null,
+    }
+  }
+
+  /**
+   * Schedules the renewal of the session before its access token expires, if token refresh is enabled
+   * and the expiry is known.
+   */
+  private scheduleRenewal(): void {
+    clearTimeout(this.renewalTimer)
+    const lifetime = this.expiresAt - Date.now()
+    if (!this.opts.tokenRefresh || !this.expiresAt || lifetime <= 0) {
+      return
+    }
+
+    const {margin = 30000} = this.opts.tokenRefresh
+    const delay = Math.max(lifetime - margin, lifetime * 0.8)
+    this.renewalTimer = setTimeout(() => this.renew(), delay)
+  }
+
+  /**
+   * Cancels the scheduled session renewal, and closes the connection opened to renew the session, if any.
+   */
+  private cancelRenewal(): void {
+    clearTimeout(this.renewalTimer)
+    this.standby?.transport.close()
+    this.standby = null
+  }
+
+  /**
+   * Renews the session through a make-before-break handover: opens a standby connection with a fresh URL,
+   * which replaces the current connection once its session starts (see `promote()`).
+   */
+  private async renew(): Promise<void> {
+    let endpoint: Endpoint
+    try {
+      endpoint = await this.provideEndpoint()
+    } catch (cause) {
+      // The current connection is kept, and reopened as usual once the token expires
+      this.reportError(new ConnectionError('URL provider failed', {cause}))
+      return
+    }
+
+    if (this.currentState !== 'open' || this.standby) {
+      return
+    }
+
+    this.opts.logger?.info('Renewing session before token expiry')
+    let url = endpoint.url
+    const transport = this.createTransport()
+    this.standby = {transport, endpoint}
+    transport.open(async () => {
+      // Once promoted, the standby connection resolves its URL as usual when reconnecting
+      if (url === null) {
+        return this.resolveUrl()
+      }
+      const first = url
+      url = null
+      return first
+    })
+  }
+
+  /**
+   * Creates a transport with the configured factory, or a `WebSocketTransport`, and binds its callbacks.
+   *
+   * @returns The transport, not opened yet.
+   */
+  private createTransport(): Transport {
+    const transport = this.opts.transport
+      ? this.opts.transport()
+      : new WebSocketTransport(this.opts.websocketOptions)
+
+    transport.onmessage = (event: TransportMessageEvent) =>
+      this.onMessage(event, transport)
+    transport.onerror = () => {
+      this.handleError(new Error('WebSocket error event'))
+    }
+    transport.onclose = (event: TransportCloseEvent) =>
+      this.handleClose(event, transport)
+
+    return transport
+  }
+
+  /**
+   * Makes the standby connection the current one once its session starts. The previous connection stays open
+   * for the configured overlap, to receive the acknowledgements and replies still in flight.
+   */
+  private promote(): void {
+    const previous = this.transport
+    const {transport, endpoint} = this.standby
+    this.transport = transport
+    this.expiresAt = endpoint.expiresAt
+    this.permissions = endpoint.permissions
+    this.standby = null
+    this.attempt = 0
+    this.opts.logger?.info('Session renewed')
+
+    if (previous) {
+      // The previous connection is retired, its closure is not a disconnection
+      previous.onclose = null
+      setTimeout(
+        () => previous.close(1000, 'Session renewed'),
+        this.opts.tokenRefresh?.overlap ?? 1000,
+      )
+    }
+  }
+
+  /**
+   * Transitions to the given connection state, emitting a `'state.changed'` event. Staying in the `'reconnecting'`
+   * state is notified too when a new attempt starts, so every failed attempt is reported.
+   *
+   * @param next - The new connection state.
+   * @param attempt - The connection attempt number, if it changes.
+   */
+  private setState(
+    next: ConnectionState,
+    attempt: number = this.attempt,
+  ): void {
+    const previous = this.currentState
+    const retried = next === 'reconnecting' && attempt !== this.attempt
+    this.attempt = attempt
+    if (previous === next && !retried) {
+      return
+    }
+
+    this.currentState = next
+    this.opts.logger?.debug('Connection state changed:', {previous, next})
+    this.emit('state.changed', {
+      previous,
+      next,
+      attempt: this.attempt,
+      closeCode: this.lastCloseCode,
+    } as StateChangeEvent)
+  }
+
+  /**
+   * Computes the next connection attempt number after a close.
+   *
+   * Mirrors the `ReconnectingWebSocket` retry accounting: the retry counter is reset once a connection
+   * stays open for `minUptime`, and no further attempts are made once it reaches `maxRetries`.
+   *
+   * @returns The next attempt number, or `null` if no reconnection attempt follows.
+   */
+  private nextAttempt(): number | null {
+    if (!this.transport?.reconnect) {
+      // The transport does not reconnect
+      return null
+    }
+
+    const {maxRetries = Infinity, minUptime = 5000} = this.opts.websocketOptions
+    const uptime = this.openedAt ? Date.now() - this.openedAt : 0
+    const retries = uptime >= minUptime ? 0 : this.attempt
+
+    return retries < maxRetries ? retries + 1 : null
+  }
+
+  /**
+   * Rejects and discards every frame buffered in the outbound queue.
+   *
+   * @param reason - The rejection reason.
+   */
+  private discardOutbound(reason: string): void {
+    for (const entry of this.outbound.drain()) {
+      entry.reject(new ConnectionClosedError(reason, entry.context))
+    }
+  }
+
+  /**
+   * Settles the pending `connect()` call, if any.
+   *
+   * @param error - The error to reject with, or `null` to resolve.
+   * @param connection - The connection information to resolve with.
+   */
+  private settleConnect(
+    error: Error | null,
+    connection?: ConnectionInfo,
+  ): void {
+    const request = this.connectRequest
+    if (!request) {
+      return
+    }
+
+    this.connectRequest = null
+    clearTimeout(request.timer)
+    if (error) {
+      request.reject(error)
+    } else {
+      request.resolve(connection)
+    }
+  }
+
+  /**
+   * Checks an action against the permissions of the access token, if the permission check is enabled.
+   *
+   * @param action - The action, `'publish'` or `'subscribe'`.
+   * @param context - The message identifier, topic and type.
+   *
+   * @throws `PermissionDeniedError` if the action is not allowed.
+   */
+  private assertPermission(
+    action: PermissionAction,
+    context: MessageContext,
+  ): void {
+    if (this.opts.permissionCheck && !this.can(action, context.topic)) {
+      throw new PermissionDeniedError(action, context)
+    }
+  }
+
+  /**
+   * Validates the payload of an outgoing message, if outbound validation is enabled.
+   *
+   * @param payload - The message payload.
+   * @param context - The message identifier, topic and type.
+   *
+   * @throws `ValidationError` if the payload is invalid.
+   * @throws `RealtimeError` if the validator is asynchronous.
+   */
+  private validateOutbound(payload: any, context: MessageContext): void {
+    if (!this.opts.validation?.outbound) {
+      return
+    }
+
+    const {topic, messageType = 'broadcast'} = context
+    const result = this.validators.validate(`${topic}.${messageType}`, payload)
+    if (result instanceof Promise) {
+      throw new RealtimeError(
+        'Asynchronous validators are not supported for outbound messages',
+        context,
+      )
+    }
+    if (result?.issues.length) {
+      throw new ValidationError(result.issues, context)
+    }
+  }
+
+  /**
+   * Notifies an incoming message that failed validation, replying with the validation issues if enabled.
+   *
+   * @param message - The invalid message.
+   * @param issues - The validation issues.
+   */
+  private rejectInvalid(
+    message: IncomingMessage,
+    issues: ValidationIssue[],
+  ): void {
+    const {topic, messageType, data} = message
+    this.opts.logger?.debug('Invalid incoming message:', {message, issues})
+    this.emit('message.invalid', {message, issues} as InvalidMessageEvent)
+
+    if (
+      this.opts.validation?.replyOnInvalid !== false &&
+      data?.client?.connectionId
+    ) {
+      const error = new ValidationError(issues, {
+        id: data.id,
+        topic,
+        messageType,
+      })
+      try {
+        reply(this, message)(serializeError(error), 'error')
+      } catch (replyError) {
+        this.opts.logger?.error('Unable to send error reply:', replyError)
+      }
+    }
+  }
+
+  /**
+   * Delivers a published or sent message, split into chunks if needed, and resent until acknowledged
+   * if at-least-once delivery is enabled.
+   *
+   * @param frame - The message frame.
+   * @param options - The message options.
+   * @returns A `WaitForFactory` instance to wait for acknowledgements or replies.
+   *
+   * @throws `RealtimeError` if the outbound queue is full and its overflow policy is `'reject'`.
+   */
+  private post(frame: OutboundFrame, options: MessageOptions): WaitFor {
+    const {id, topic, messageType} = frame.data
+    const {signal} = options
+    if (
+      !this.opts.chunking ||
+      (this.preparations === 0 && !hasBlobs(frame.data.payload))
+    ) {
+      const frames = this.split(frame)
+      const delivery = this.deliverFrames(frames, signal)
+      const delivered = options.delivery
+        ? quiet(this.redeliver(frame, frames, delivery, options))
+        : undefined
+
+      return new WaitFor(
+        this,
+        {id, topic, messageType},
+        delivery,
+        this.pending,
+        signal,
+        frames.length,
+        delivered,
+      )
+    }
+
+    const prepared = this.prepare(frame)
+    const delivery = quiet(
+      prepared.then((frames) => this.deliverFrames(frames, signal)),
+    )
+    const delivered = options.delivery
+      ? quiet(
+          prepared.then((frames) =>
+            this.redeliver(frame, frames, delivery, options),
+          ),
+        )
+      : undefined
+
+    return new WaitFor(
+      this,
+      {id, topic, messageType},
+      delivery,
+      this.pending,
+      signal,
+      prepared.then((frames) => frames.length),
+      delivered,
+    )
+  }
+
+  /**
+   * Reads the `Blob` instances of a message payload, then splits it into chunk frames, since the size of the
+   * payload is only known once read. Messages are prepared one at a time, and messages posted meanwhile wait
+   * for their turn, so messages are never reordered.
+   *
+   * @param frame - The message frame.
+   * @returns A promise resolving to the chunk frames, or the message frame alone.
+   */
+  private prepare(frame: OutboundFrame): Promise<OutboundFrame[]> {
+    this.preparations++
+    const frames = this.preparing.then(async () => {
+      const payload = await readBlobs(frame.data.payload)
+      return this.split({...frame, data: {...frame.data, payload}})
+    })
+    this.preparing = frames
+      .catch(() => {})
+      .then(() => {
+        this.preparations--
+      })
+
+    return frames
+  }
+
+  /**
+   * Resends a message with the same identifier until it is acknowledged, as configured by its `delivery` options.
+   *
+   * Attempts are retried if their acknowledgement times out or the connection drops, but not once the client
+   * is disconnected. A `'delivery.failed'` event is emitted if the message cannot be delivered.
+   *
+   * @param frame - The message frame.
+   * @param frames - The frames the message is sent as, i.e. the message frame or its chunk frames.
+   * @param delivery - The delivery of the first attempt.
+   * @param options - The message options.
+   * @returns A promise resolving with the number of attempts made once the message is acknowledged.
+   *
+   * @throws `DeliveryError` if the message is not acknowledged after every attempt, or cannot be resent.
+   * @throws `AbortError` if the message is aborted.
+   */
+  private async redeliver(
+    frame: OutboundFrame,
+    frames: OutboundFrame[],
+    delivery: Promise<void>,
+    options: MessageOptions,
+  ): Promise<DeliveryReport> {
+    const {retries = 3, timeout = 5000} = options.delivery
+    const {backoff = 1000, jitter = 0.2} = options.delivery
+    const {signal} = options
+    const {id, topic, messageType} = frame.data
+    const context = {id, topic, messageType}
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        if (attempt > 1) {
+          const delay =
+            typeof backoff === 'function'
+              ? backoff(attempt - 1)
+              : backoff * 2 ** (attempt - 2)
+          await this.sleep(
+            delay * (1 - jitter * Math.random()),
+            signal,
+            context,
+          )
+
+          this.opts.logger?.debug('Resending message:', {id, attempt})
+          delivery = this.deliverFrames(frames, signal)
+        }
+
+        await new WaitFor(
+          this,
+          context,
+          delivery,
+          this.pending,
+          signal,
+          frames.length,
+        ).waitForAck(timeout)
+
+        return {id, attempts: attempt}
+      } catch (error) {
+        if (error instanceof AbortError) {
+          throw error
+        }
+
+        const retry =
+          (error instanceof TimeoutError || error instanceof ConnectionError) &&
+          this.currentState !== 'closing' &&
+          this.currentState !== 'closed'
+        if (!retry || attempt > retries) {
+          const failure = new DeliveryError(attempt, error, context)
+          this.emit('delivery.failed', {
+            frame,
+            error: failure,
+          } as DeliveryFailedEvent)
+          throw failure
+        }
+      }
+    }
+  }
+
+  /**
+   * Waits for the given duration, unless aborted.
+   *
+   * @param ms - The duration to wait in milliseconds.
+   * @param signal - Optional signal aborting the wait.
+   * @param context - The message the wait relates to, if any.
+   * @returns A promise that resolves after the duration, or rejects with an `AbortError` if aborted.
+   */
+  private sleep(
+    ms: number,
+    signal?: AbortSignal,
+    context?: MessageContext,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortError(signal.reason, context))
+        return
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(new AbortError(signal.reason, context))
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+      signal?.addEventListener('abort', onAbort, {once: true})
+    })
+  }
+
+  /**
+   * Splits a message frame into chunk frames sharing its identifier, if chunking is enabled
+   * and the serialized payload exceeds the chunk size.
+   *
+   * @param frame - The message frame, whose `Blob` instances are read if chunking is enabled (see `prepare()`).
+   * @returns The chunk frames, or the message frame alone.
+   */
+  private split(frame: OutboundFrame): OutboundFrame[] {
+    const {chunking} = this.opts
+    if (!chunking) {
+      return [frame]
+    }
+
+    const chunks = splitPayload(frame.data.payload, chunking.chunkSize ?? 65536)
+    if (!chunks) {
+      return [frame]
+    }
+
+    return chunks.map((payload) => ({...frame, data: {...frame.data, payload}}))
+  }
+
+  /**
+   * Delivers the frames of a message, emitting a `'chunk.progress'` event for each chunk of a chunked message.
+   *
+   * @param frames - The message frame, or its chunk frames.
+   * @param signal - Optional signal aborting the delivery.
+   * @returns A promise that resolves once every frame is handed to the WebSocket, or rejects if one is dropped or aborted.
+   *
+   * @throws `RealtimeError` if the outbound queue is full and its overflow policy is `'reject'`.
+   */
+  private deliverFrames(
+    frames: OutboundFrame[],
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (frames.length === 1) {
+      return this.deliver(frames[0], signal)
+    }
+
+    const {id, topic, messageType, payload} = frames[0].data
+    let chunks = 0
+    const delivery = Promise.all(
+      frames.map((frame) =>
+        this.deliver(frame, signal).then(() => {
+          this.emit('chunk.progress', {
+            direction: 'outbound',
+            id,
+            topic,
+            messageType,
+            chunks: ++chunks,
+            count: frames.length,
+            size: payload.size,
+          } as ChunkProgressEvent)
+        }),
+      ),
+    ).then(() => {})
+
+    return quiet(delivery)
+  }
+
+  /**
+   * Sends a frame right away if a session is active, otherwise buffers it in the outbound queue.
+   * Frames are rejected right away once the client is closed, since no session starts until `connect()` is called.
+   *
+   * @param frame - The frame to deliver.
+   * @param signal - Optional signal aborting the delivery. A buffered frame is removed from the queue when aborted.
+   * @returns A promise that resolves once the frame is handed to the WebSocket, or rejects if it is dropped, aborted
+   * or the client is closed.
+   *
+   * @throws `RealtimeError` if the outbound queue is full and its overflow policy is `'reject'`.
+   */
+  private deliver(frame: OutboundFrame, signal?: AbortSignal): Promise<void> {
+    const {id, topic, messageType} = frame.data
+    const context = {id, topic, messageType}
+
+    if (signal?.aborted) {
+      return quiet(Promise.reject(new AbortError(signal.reason, context)))
+    }
+
+    if (this.currentState === 'closing' || this.currentState === 'closed') {
+      // No session will start to flush the frame
+      return quiet(
+        Promise.reject(new ConnectionClosedError('Connection closed', context)),
+      )
+    }
+
+    if (this.currentState === 'open' && this.transport) {
+      return quiet(this.transmitMessage(frame, context))
+    }
+
+    let entry: QueuedFrame
+    const onAbort = () => {
+      if (this.outbound.remove(entry)) {
+        entry.reject(new AbortError(signal.reason, context))
+      }
+    }
+    const delivery = quiet(
+      new Promise<void>((resolve, reject) => {
+        const settle = (error?: Error) => {
+          signal?.removeEventListener('abort', onAbort)
+          error ? reject(error) : resolve()
+        }
+        entry = {frame, context, resolve: () => settle(), reject: settle}
+      }),
+    )
+
+    const dropped = this.outbound.enqueue(entry)
+    if (dropped) {
+      this.opts.logger?.debug(
+        'Outbound queue overflow, dropping:',
+        dropped.frame,
+      )
+      dropped.reject(
+        new RealtimeError(
+          'Message dropped from the outbound queue',
+          dropped.context,
+        ),
+      )
+      this.emit('outbound.dropped', dropped.frame)
+    }
+    if (dropped !== entry) {
+      signal?.addEventListener('abort', onAbort)
+    }
+
+    return delivery
+  }
+
+  /**
+   * Sends every frame buffered in the outbound queue, in order.
+   */
+  private flushOutbound(): void {
+    for (const entry of this.outbound.drain()) {
+      try {
+        this.transmitMessage(entry.frame, entry.context).then(
+          () => entry.resolve(),
+          entry.reject,
+        )
+      } catch (error) {
+        entry.reject(error)
+      }
+    }
+  }
+
+  /**
+   * Sends a subscribe or unsubscribe frame for the given topic.
+   *
+   * @param type - The frame type, either `'subscribe'` or `'unsubscribe'`.
+   * @param topic - The remote topic.
+   */
+  private sendSubscription(
+    type: 'subscribe' | 'unsubscribe',
+    topic: string,
+  ): void {
+    this.transmit({type, data: {topic}}).catch((error) =>
+      this.handleError(error),
+    )
+  }
+
+  /**
+   * Runs a frame through the outbound middleware, then encodes and sends it over the WebSocket.
+   *
+   * Frames are encoded and sent synchronously if no outbound middleware is registered, unless they must be
+   * written asynchronously (see `write()`).
+   *
+   * @param frame - The frame to send.
+   * @returns A promise that resolves to `true` once the frame is handed to the WebSocket,
+   * to `false` if a middleware dropped it, or rejects if a middleware, the encoding or the compression failed.
+   */
+  private transmit(frame: OutboundFrame): Promise<boolean> {
+    const send = (frame: OutboundFrame) => this.write(frame)
+
+    if (this.outboundPipeline.size === 0) {
+      const written = send(frame)
+      return written ? written.then(() => true) : Promise.resolve(true)
+    }
+
+    return this.outboundPipeline.run(frame, send)
+  }
+
+  /**
+   * Encodes a frame and writes it to the WebSocket.
+   *
+   * Frames are written asynchronously if their payload contains `Blob` instances, which are read first,
+   * or if client-side compression is enabled, in which case frames reaching the size threshold are compressed.
+   * Asynchronous writes are done one at a time, and synchronous writes wait for them, so frames are never reordered.
+   *
+   * @param frame - The frame to write.
+   * @returns A promise that resolves once the frame is written if it is written asynchronously, nothing otherwise.
+   */
+  private write(frame: OutboundFrame): Promise<void> | void {
+    const {compression} = this.opts
+    const blobs = hasBlobs(frame.data.payload)
+    if (!compression && !blobs && this.writes === 0) {
+      this.transport?.send(this.encode(frame))
+      return
+    }
+
+    const {threshold = 1024, format = 'gzip'} = compression || {}
+    this.writes++
+    const written = this.writing.then(async () => {
+      if (blobs) {
+        const payload = await readBlobs(frame.data.payload)
+        frame = {...frame, data: {...frame.data, payload}}
+      }
+
+      let data = this.encode(frame)
+      const size = (data: string | ArrayBuffer) =>
+        typeof data === 'string' ? utf8Length(data) : data.byteLength
+      if (compression && size(data) >= threshold) {
+        data = await compress(
+          typeof data === 'string' ? new TextEncoder().encode(data) : data,
+          format,
+        )
+      }
+      this.transport?.send(data)
+    })
+    this.writing = written
+      .catch(() => {})
+      .then(() => {
+        this.writes--
+      })
+
+    return written
+  }
+
+  /**
+   * Encodes a frame with the configured codec.
+   *
+   * @param frame - The frame to encode.
+   * @returns The encoded frame, binary frames as `ArrayBuffer`.
+   */
+  private encode(frame: OutboundFrame): string | ArrayBuffer {
+    const data = this.codec.encode(frame)
+    if (data instanceof Uint8Array) {
+      return data.buffer.slice(
+        data.byteOffset,
+        data.byteOffset + data.byteLength,
+      ) as ArrayBuffer
+    }
+
+    return data
+  }
+
+  /**
+   * Sends a message frame, rejecting if a middleware drops it.
+   *
+   * @param frame - The frame to send.
+   * @param context - The message the frame carries.
+   * @returns A promise that resolves once the frame is handed to the WebSocket.
+   */
+  private transmitMessage(
+    frame: OutboundFrame,
+    context: MessageContext,
+  ): Promise<void> {
+    return this.transmit(frame).then((sent) => {
+      if (!sent) {
+        throw new RealtimeError('Message dropped by middleware', context)
+      }
+    })
+  }
+
+  /**
+   * Handles incoming WebSocket messages.
+   *
+   * Messages are processed one at a time, in the order they are received, so that
+   * asynchronous steps such as decompression never reorder them.
+   *
+   * @param event - The message event received from the WebSocket.
+   * @returns A promise that resolves once the message is processed.
+   */
+  private onMessage(
+    event: TransportMessageEvent,
+    transport?: Transport,
+  ): Promise<void> {
+    this.heartbeat?.touch()
+    const processed = this.reading.then(() => this.receive(event, transport))
+    this.reading = processed.catch(() => {})
+
+    return processed
+  }
+
+  /**
+   * Processes an incoming WebSocket message.
+   *
+   * Decompresses and deserializes the message, runs it through the inbound middleware and dispatches it.
+   * Binary frames are decompressed before being deserialized if compression is enabled or the built-in codecs are
+   * used, otherwise only once the custom deserializer failed to deserialize them as received.
+   *
+   * @param event - The message event received from the WebSocket.
+   */
+  private async receive(
+    event: TransportMessageEvent,
+    transport?: Transport,
+  ): Promise<void> {
+    let messageData: any
+    let rawSize: number
+    let compressedSize: number | undefined
+
+    try {
+      let data = event.data
+      if (data instanceof Blob) {
+        // Handle Blob data by reading its bytes
+        data = await data.arrayBuffer()
+      } else if (ArrayBuffer.isView(data)) {
+        // Handle typed arrays, e.g. Node.js buffers, by copying their bytes
+        const {buffer, byteOffset, byteLength} = data
+        data = buffer.slice(byteOffset, byteOffset + byteLength)
+      }
+
+      let decoded = false
+      if (data instanceof ArrayBuffer) {
+        // Custom formats may start like compressed data: unless compression is enabled, they are
+        // decompressed only if they cannot be deserialized as received
+        const eager = this.opts.compression || !this.hasCustomDecoder()
+        let format = eager ? detectCompression(new Uint8Array(data)) : null
+        if (!eager) {
+          try {
+            messageData = this.decode(data)
+            decoded = true
+          } catch (error) {
+            format = detectCompression(new Uint8Array(data))
+            if (!format) {
+              throw error
+            }
+          }
+        }
+
+        if (format) {
+          compressedSize = data.byteLength
+          data = await decompress(data, format)
+        }
+        rawSize = data.byteLength
+      } else if (typeof data === 'string') {
+        rawSize = utf8Length(data)
+      } else {
+        throw new Error('Unable to deserialize incoming message')
+      }
+
+      if (!decoded) {
+        messageData = this.decode(data)
+      }
+    } catch (error) {
+      // Handle deserialization errors
+      this.handleError(new DeserializationError(error, event.data))
+      return
+    }
+
+    const {topic, messageType, data} = messageData
+    if (transport && transport === this.standby?.transport) {
+      if (topic !== 'main' || messageType !== 'welcome') {
+        // The renewed session has not started yet
+        return
+      }
+      this.promote()
+    } else if (
+      transport &&
+      transport !== this.transport &&
+      topic !== 'priv/acks' &&
+      messageType !== 'response'
+    ) {
+      // Retired by a renewal, only the acknowledgements and replies still in flight are delivered through it,
+      // as the new connection receives the messages of every subscribed topic
+      return
+    }
+
+    let messageEvent: IncomingMessage = {
+      topic,
+      messageType,
+      data,
+      compression: compressedSize !== undefined,
+      rawSize,
+      compressedSize,
+    }
+
+    this.opts.logger?.debug('> Incoming message:', messageEvent)
+
+    if (isChunk(data?.payload)) {
+      messageEvent = this.reassemble(messageEvent)
+      if (!messageEvent) {
+        return
+      }
+    }
+
+    if (data?.id !== undefined && this.isDuplicate(messageEvent, data.id)) {
+      return
+    }
+
+    if (this.inboundPipeline.size === 0) {
+      await this.dispatch(messageEvent)
+      return
+    }
+
+    try {
+      await this.inboundPipeline.run(messageEvent, (message) =>
+        this.dispatch(message),
+      )
+    } catch (error) {
+      this.handleError(error)
+    }
+  }
+
+  /**
+   * Deserializes an incoming frame with the custom `messageDeserializer`, or the configured codec.
+   *
+   * @param data - The frame, decompressed if it was compressed.
+   * @returns The deserialized message.
+   */
+  private decode(data: string | ArrayBuffer): any {
+    const {messageDeserializer} = this.opts.websocketOptions
+
+    return messageDeserializer
+      ? messageDeserializer(data)
+      : this.codec.decode(data)
+  }
+
+  /**
+   * Checks whether incoming frames are deserialized by a custom `messageDeserializer` or codec, whose binary
+   * frames may start like compressed data. Frames of the built-in codecs never do.
+   *
+   * @returns `true` if a custom deserializer or codec is configured.
+   */
+  private hasCustomDecoder(): boolean {
+    return (
+      !!this.opts.websocketOptions.messageDeserializer ||
+      (this.codec !== jsonCodec && this.codec !== msgpackCodec)
+    )
+  }
+
+  /**
+   * Checks whether an incoming message was already received, if deduplication is enabled,
+   * emitting a `'message.duplicate'` event for duplicates.
+   *
+   * @param message - The incoming message.
+   * @param key - Identifies the message within its topic, e.g. its id.
+   * @returns `true` if the message is a duplicate.
+   */
+  private isDuplicate(message: IncomingMessage, key: string): boolean {
+    if (!this.deduplicator?.isDuplicate(message.topic, key)) {
+      return false
+    }
+
+    this.duplicates++
+    this.opts.logger?.debug('Duplicate incoming message:', message)
+    this.emit('message.duplicate', {
+      message,
+      count: this.duplicates,
+    } as DuplicateMessageEvent)
+
+    return true
+  }
+
+  /**
+   * Adds an incoming chunk to the message it belongs to, emitting a `'chunk.progress'` event.
+   *
+   * @param message - The incoming chunk message.
+   * @returns The reassembled message once every chunk is received, `null` otherwise or if the message is discarded.
+   */
+  private reassemble(message: IncomingMessage): IncomingMessage | null {
+    const {topic, messageType, data} = message
+    const context = {id: data.id, topic, messageType}
+
+    try {
+      const progress = this.reassembler.add(
+        `${topic}:${data.client?.connectionId}:${data.id}`,
+        data.payload,
+        context,
+      )
+      this.emit('chunk.progress', {
+        direction: 'inbound',
+        id: data.id,
+        topic,
+        messageType,
+        chunks: progress.chunks,
+        count: progress.count,
+        size: progress.size,
+      } as ChunkProgressEvent)
+
+      return progress.complete
+        ? {...message, data: {...data, payload: progress.payload}}
+        : null
+    } catch (error) {
+      this.handleError(
+        error instanceof RealtimeError
+          ? error
+          : new DeserializationError(error, data.payload, context),
+      )
+      return null
+    }
+  }
+
+  /**
+   * Validates an incoming message and emits an event based on its topic and message type.
+   *
+   * @param message - The incoming message.
+   */
+  private async dispatch(message: IncomingMessage): Promise<void> {
+    const {topic, messageType, data} = message
+
+    let validation = this.validators.validate(
+      `${topic}.${messageType}`,
+      data?.payload,
+    )
+    if (validation instanceof Promise) {
+      validation = await validation
+    }
+    if (validation?.issues.length) {
+      this.rejectInvalid(message, validation.issues)
+      return
+    } else if (validation) {
+      message = {...message, data: {...data, payload: validation.value}}
+    }
+
+    if (messageType) {
+      // Emit an event based on the topic and message type
+      this.emit(`${topic}.${messageType}`, message, reply(this, message))
+    }
+  }
+
+  /**
+   * Handles WebSocket errors by logging and emitting an 'error' event.
    *
    * @param error - The error object encountered during WebSocket communication.
    */
@@ -434,16 +2537,128 @@ export class RealtimeClient extends EventEmitter2 {
     this.emit('error', error)
   }
 
+  /**
+   * Reports an error raised outside any call of the application, e.g. from a timer, through the `'error'` event
+   * if it is listened to. Unlike `handleError()`, it never throws, as emitting an unlistened `'error'` event does.
+   *
+   * @param error - The error to report.
+   */
+  private reportError(error: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.handleError(error)
+    } else {
+      this.opts.logger?.error('WebSocket error:', error)
+    }
+  }
+
+  /**
+   * Sends a heartbeat ping to the backend. Pings are skipped if the access token does not allow publishing
+   * to `'secure/inbound'`, as the Messaging Gateway would close the connection; stale connections are then
+   * detected from the idle time alone.
+   *
+   * @returns A promise that resolves once the ping is acknowledged, or rejects if it is skipped.
+   */
+  private ping(): Promise<unknown> {
+    const {messageType = 'heartbeat', timeout = 30000} = this.opts.heartbeat
+    const context = {topic: 'secure/inbound', messageType}
+    if (!this.can('publish', context.topic)) {
+      return Promise.reject(new PermissionDeniedError('publish', context))
+    }
+
+    return this.sendMessage(null, {
+      id: this.getRandomId(),
+      messageType,
+    }).waitForAck(timeout)
+  }
+
+  /**
+   * Reopens a stale connection, emitting a `'connection.stale'` event.
+   *
+   * @param event - The idle duration and the RTT history.
+   */
+  private onStale(event: StaleConnectionEvent): void {
+    this.opts.logger?.info('Stale connection, reconnecting:', event)
+    this.emit('connection.stale', event)
+    if (this.transport?.reconnect) {
+      this.transport.reconnect(4000, 'Stale connection')
+    } else {
+      this.transport?.close(4000, 'Stale connection')
+    }
+  }
+
   /**
    * Handles WebSocket closure events by logging and emitting a 'close' event.
    *
+   * Moves the client to the `'reconnecting'` or `'closed'` state, unless the event
+   * comes from a socket that was already disconnected.
+   *
    * @param event - The close event received from the WebSocket.
+   * @param transport - The transport that emitted the event.
    */
-  private handleClose(event: CloseEvent): void {
+  private handleClose(event: TransportCloseEvent, transport: Transport): void {
     this.opts.logger?.info('WebSocket closed:', {
       code: event.code,
       reason: event.reason,
     })
+
+    if (transport === this.standby?.transport) {
+      // The renewed session failed to start, the current connection is kept
+      this.cancelRenewal()
+      this.reportError(
+        new ConnectionClosedError(
+          'Connection closed before the renewed session started',
+          {code: event.code, reason: event.reason},
+        ),
+      )
+      return
+    }
+
     this.emit('close', event)
+
+    if (transport !== this.transport) {
+      return
+    }
+
+    this.heartbeat?.stop()
+    this.cancelRenewal()
+    this.lastCloseCode = event.code
+    if (
+      this.connectRequest &&
+      (isPolicyClose(event.code) || this.nextAttempt() === null)
+    ) {
+      // Transient closes are retried until the connect timeout expires
+      this.settleConnect(
+        new ConnectionClosedError(
+          'Connection closed before the session started',
+          {
+            code: event.code,
+            reason: event.reason,
+          },
+        ),
+      )
+      this.disconnect()
+      return
+    }
+
+    const attempt = this.nextAttempt()
+    this.openedAt = 0
+    if (attempt === null || !this.opts.pendingRequests?.keepOnReconnect) {
+      this.pending.rejectAll(
+        (request) =>
+          new ConnectionClosedError('Connection closed', {
+            ...request.context,
+            code: event.code,
+            reason: event.reason,
+          }),
+      )
+    }
+
+    if (attempt !== null) {
+      this.setState('reconnecting', attempt)
+    } else {
+      this.transport = null
+      this.setState('closed')
+      this.discardOutbound('Connection closed')
+    }
   }
 }
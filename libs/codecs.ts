@@ -0,0 +1,30 @@
+import {Codec} from './interfaces'
+import {binaryReplacer, parseJSON} from './binary'
+import * as msgpack from './msgpack'
+
+const textDecoder = new TextDecoder()
+
+/**
+ * JSON wire codec, the default codec of the `RealtimeClient`.
+ *
+ * Frames are sent as text. Binary frames are decoded as UTF-8 JSON text.
+ * Binary values, e.g. `Uint8Array` payloads, are sent as base64 text with a content type marker
+ * and decoded as `Uint8Array`.
+ */
+export const jsonCodec: Codec = {
+  encode: (frame) => JSON.stringify(frame, binaryReplacer),
+  decode: (data) =>
+    parseJSON(typeof data === 'string' ? data : textDecoder.decode(data)),
+}
+
+/**
+ * MessagePack wire codec, producing smaller frames that are faster to encode and decode than JSON.
+ *
+ * Frames are sent as binary. Text frames are still decoded as JSON, e.g. gateway messages.
+ * Binary values, e.g. `Uint8Array` payloads, are sent as MessagePack binaries and decoded as `Uint8Array`.
+ */
+export const msgpackCodec: Codec = {
+  encode: (frame) => msgpack.encode(frame),
+  decode: (data) =>
+    typeof data === 'string' ? parseJSON(data) : msgpack.decode(data),
+}
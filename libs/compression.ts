@@ -0,0 +1,97 @@
+import {CompressionFormat} from './interfaces'
+
+/**
+ * Detects whether binary data is compressed, from its header bytes.
+ *
+ * Recognizes gzip members and zlib streams (the `'deflate'` format of `CompressionStream`).
+ * Neither header can start a JSON text or a MessagePack message.
+ *
+ * @param bytes - The data to inspect.
+ * @returns The compression format, or `null` if the data is not compressed.
+ */
+export const detectCompression = (
+  bytes: Uint8Array,
+): CompressionFormat | null => {
+  if (bytes.length < 2) {
+    return null
+  } else if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    return 'gzip'
+  } else if (
+    (bytes[0] & 0x0f) === 0x08 &&
+    bytes[0] >> 4 <= 7 &&
+    ((bytes[0] << 8) | bytes[1]) % 31 === 0
+  ) {
+    return 'deflate'
+  }
+
+  return null
+}
+
+/**
+ * Pipes data through a compression or decompression stream.
+ *
+ * @param data - The data to transform.
+ * @param transform - The compression or decompression stream.
+ * @returns A promise resolving to the transformed data.
+ */
+const pipe = (
+  data: ArrayBuffer | Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+): Promise<ArrayBuffer> =>
+  new Response(
+    new Blob([data as BlobPart]).stream().pipeThrough(transform),
+  ).arrayBuffer()
+
+/**
+ * Compresses data.
+ *
+ * @param data - The data to compress.
+ * @param format - The compression format.
+ * @returns A promise resolving to the compressed data.
+ */
+export const compress = (
+  data: ArrayBuffer | Uint8Array,
+  format: CompressionFormat,
+): Promise<ArrayBuffer> => pipe(data, new CompressionStream(format))
+
+/**
+ * Decompresses data.
+ *
+ * @param data - The compressed data.
+ * @param format - The compression format.
+ * @returns A promise resolving to the decompressed data.
+ */
+export const decompress = (
+  data: ArrayBuffer | Uint8Array,
+  format: CompressionFormat,
+): Promise<ArrayBuffer> => pipe(data, new DecompressionStream(format))
+
+/**
+ * Computes the UTF-8 encoded size of a string, without encoding it.
+ *
+ * @param text - The string to measure.
+ * @returns The size in bytes.
+ */
+export const utf8Length = (text: string): number => {
+  let length = 0
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    if (code < 0x80) {
+      length += 1
+    } else if (code < 0x800) {
+      length += 2
+    } else if (
+      code >= 0xd800 &&
+      code <= 0xdbff &&
+      (text.charCodeAt(i + 1) & 0xfc00) === 0xdc00
+    ) {
+      // Surrogate pair, encoded as a single 4-byte sequence
+      length += 4
+      i++
+    } else {
+      length += 3
+    }
+  }
+
+  return length
+}
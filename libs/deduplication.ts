@@ -0,0 +1,73 @@
+import {DeduplicationOptions} from './interfaces'
+
+/**
+ * Bounded window of recently received message keys, used to suppress duplicate messages.
+ *
+ * Keys are remembered for a time-to-live, configurable per topic, and the least recently seen keys
+ * are evicted first once the window is full.
+ */
+export class Deduplicator {
+  private entries: Map<string, number> = new Map()
+  private maxSize: number
+  private ttl: number
+  private topics: Record<string, number | false>
+
+  /**
+   * Initializes a new instance of the `Deduplicator` class.
+   *
+   * @param options - The window size, the time-to-live and the per topic overrides.
+   * Default to `10000` keys and `60000` ms.
+   */
+  constructor(options: DeduplicationOptions = {}) {
+    this.maxSize = options.maxSize ?? 10000
+    this.ttl = options.ttl ?? 60000
+    this.topics = options.topics ?? {}
+  }
+
+  /**
+   * Number of remembered keys, expired ones included until they are evicted.
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Checks whether a message was already received within its time-to-live, remembering it otherwise.
+   *
+   * @param topic - The topic of the message.
+   * @param key - Identifies the message within its topic, e.g. its id.
+   * @returns `true` if the message is a duplicate, `false` if it is new or deduplication is disabled for its topic.
+   */
+  isDuplicate(topic: string, key: string): boolean {
+    const ttl = this.topics[topic] ?? this.ttl
+    if (ttl === false) {
+      return false
+    }
+
+    const entry = `${topic}\n${key}`
+    const now = Date.now()
+    const expiresAt = this.entries.get(entry)
+    if (expiresAt !== undefined) {
+      // Move the key to the most recently seen position
+      this.entries.delete(entry)
+      if (expiresAt > now) {
+        this.entries.set(entry, expiresAt)
+        return true
+      }
+    }
+
+    this.entries.set(entry, now + ttl)
+    if (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value)
+    }
+
+    return false
+  }
+
+  /**
+   * Forgets every remembered key.
+   */
+  clear(): void {
+    this.entries.clear()
+  }
+}
@@ -0,0 +1,328 @@
+import {ResponseMessage, ValidationIssue} from './interfaces'
+
+/**
+ * Message an error relates to.
+ */
+export interface MessageContext {
+  /**
+   * The message identifier.
+   */
+  id?: string
+
+  /**
+   * The topic the message was published to, if any.
+   */
+  topic?: string
+
+  /**
+   * The type of the message.
+   */
+  messageType?: string
+}
+
+/**
+ * Base class for errors raised by the `RealtimeClient`.
+ *
+ * Allows catching every client error with a single `instanceof` check.
+ * Errors related to a specific message carry its identifier, topic and type.
+ */
+export class RealtimeError extends Error {
+  id?: string
+  topic?: string
+  messageType?: string
+
+  /**
+   * Initializes a new instance of the `RealtimeError` class.
+   *
+   * @param message - The error message.
+   * @param context - The message the error relates to, if any.
+   */
+  constructor(message: string, context: MessageContext = {}) {
+    super(message)
+    this.name = 'RealtimeError'
+    this.id = context.id
+    this.topic = context.topic
+    this.messageType = context.messageType
+  }
+}
+
+/**
+ * Details attached to a `ConnectionError`.
+ */
+export interface ConnectionErrorDetails extends MessageContext {
+  /**
+   * The WebSocket close code, if the connection was closed by the gateway.
+   */
+  code?: number
+
+  /**
+   * The WebSocket close reason, if the connection was closed by the gateway.
+   */
+  reason?: string
+
+  /**
+   * The underlying error, e.g. the error thrown by the `urlProvider`.
+   */
+  cause?: unknown
+}
+
+/**
+ * Error raised when a session cannot be established.
+ *
+ * Carries the close code and reason when the gateway closed the connection,
+ * or the underlying cause when the `urlProvider` failed.
+ */
+export class ConnectionError extends RealtimeError {
+  code?: number
+  reason?: string
+  cause?: unknown
+
+  /**
+   * Initializes a new instance of the `ConnectionError` class.
+   *
+   * @param message - The error message.
+   * @param details - The close code, close reason, underlying cause or related message.
+   */
+  constructor(message: string, details: ConnectionErrorDetails = {}) {
+    super(message, details)
+    this.name = 'ConnectionError'
+    this.code = details.code
+    this.reason = details.reason
+    this.cause = details.cause
+  }
+}
+
+/**
+ * Error raised when the connection is closed, either by the gateway or by calling `disconnect()`.
+ *
+ * Used to reject a pending `connect()` call, or messages that could not be delivered or answered.
+ */
+export class ConnectionClosedError extends ConnectionError {
+  /**
+   * Initializes a new instance of the `ConnectionClosedError` class.
+   *
+   * @param message - The error message.
+   * @param details - The close code, close reason or related message.
+   */
+  constructor(message: string, details: ConnectionErrorDetails = {}) {
+    super(message, details)
+    this.name = 'ConnectionClosedError'
+  }
+}
+
+/**
+ * Error raised when a session is not started within the `connect()` timeout.
+ */
+export class ConnectTimeoutError extends ConnectionError {
+  /**
+   * Initializes a new instance of the `ConnectTimeoutError` class.
+   *
+   * @param timeout - The connect timeout in milliseconds.
+   */
+  constructor(timeout: number) {
+    super(`Session not started within ${timeout}ms`)
+    this.name = 'ConnectTimeoutError'
+  }
+}
+
+/**
+ * Base class for errors raised when an acknowledgement or reply does not arrive in time.
+ *
+ * The error message is `'timeout'` and the `code` is `'ETIMEDOUT'`, for compatibility with
+ * the errors previously raised by `EventEmitter2.waitFor()`.
+ */
+export class TimeoutError extends RealtimeError {
+  code: string = 'ETIMEDOUT'
+  timeout: number
+
+  /**
+   * Initializes a new instance of the `TimeoutError` class.
+   *
+   * @param timeout - The timeout in milliseconds.
+   * @param context - The message that was not acknowledged or answered.
+   */
+  constructor(timeout: number, context: MessageContext = {}) {
+    super('timeout', context)
+    this.name = 'TimeoutError'
+    this.timeout = timeout
+  }
+}
+
+/**
+ * Error raised when the Messaging Gateway does not acknowledge a message in time.
+ */
+export class AckTimeoutError extends TimeoutError {
+  /**
+   * Initializes a new instance of the `AckTimeoutError` class.
+   *
+   * @param timeout - The timeout in milliseconds.
+   * @param context - The message that was not acknowledged.
+   */
+  constructor(timeout: number, context: MessageContext = {}) {
+    super(timeout, context)
+    this.name = 'AckTimeoutError'
+  }
+}
+
+/**
+ * Error raised when no reply to a message arrives in time.
+ */
+export class ReplyTimeoutError extends TimeoutError {
+  /**
+   * Initializes a new instance of the `ReplyTimeoutError` class.
+   *
+   * @param timeout - The timeout in milliseconds.
+   * @param context - The message that was not answered.
+   */
+  constructor(timeout: number, context: MessageContext = {}) {
+    super(timeout, context)
+    this.name = 'ReplyTimeoutError'
+  }
+}
+
+/**
+ * Error raised when a reply carries a status other than `'ok'`.
+ *
+ * Only raised by `waitForReply()` when the `rejectOnError` option is enabled.
+ */
+export class RemoteError extends RealtimeError {
+  status: string
+  data: any
+
+  /**
+   * Initializes a new instance of the `RemoteError` class.
+   *
+   * @param response - The reply received from the remote peer.
+   * @param context - The message the reply responds to.
+   */
+  constructor(response: ResponseMessage, context: MessageContext = {}) {
+    super(`Remote peer replied with status '${response.status}'`, context)
+    this.name = 'RemoteError'
+    this.status = response.status
+    this.data = response.data
+  }
+}
+
+/**
+ * Error raised when an operation is aborted through an `AbortSignal`.
+ */
+export class AbortError extends RealtimeError {
+  reason: unknown
+
+  /**
+   * Initializes a new instance of the `AbortError` class.
+   *
+   * @param reason - The abort reason of the signal.
+   * @param context - The message whose delivery or wait was aborted.
+   */
+  constructor(reason: unknown, context: MessageContext = {}) {
+    super('The operation was aborted', context)
+    this.name = 'AbortError'
+    this.reason = reason
+  }
+}
+
+/**
+ * Error raised when an incoming message cannot be deserialized.
+ */
+export class DeserializationError extends RealtimeError {
+  cause?: unknown
+  data: any
+
+  /**
+   * Initializes a new instance of the `DeserializationError` class.
+   *
+   * @param cause - The underlying error.
+   * @param data - The raw data received from the WebSocket.
+   * @param context - The message being deserialized, if known.
+   */
+  constructor(cause: unknown, data: any, context: MessageContext = {}) {
+    super(
+      `Unable to deserialize incoming message: ${(cause as Error)?.message}`,
+      context,
+    )
+    this.name = 'DeserializationError'
+    this.cause = cause
+    this.data = data
+  }
+}
+
+/**
+ * Error raised when a message payload fails validation.
+ */
+export class ValidationError extends RealtimeError {
+  issues: ValidationIssue[]
+
+  /**
+   * Initializes a new instance of the `ValidationError` class.
+   *
+   * @param issues - The validation issues.
+   * @param context - The message that failed validation.
+   */
+  constructor(issues: ValidationIssue[], context: MessageContext = {}) {
+    super(
+      `Invalid payload: ${issues.map((issue) => issue.message).join('; ')}`,
+      context,
+    )
+    this.name = 'ValidationError'
+    this.issues = issues
+  }
+}
+
+/**
+ * Error raised when a message is not acknowledged after every delivery attempt.
+ */
+export class DeliveryError extends RealtimeError {
+  attempts: number
+  cause?: unknown
+
+  /**
+   * Initializes a new instance of the `DeliveryError` class.
+   *
+   * @param attempts - The number of delivery attempts made.
+   * @param cause - The error of the last attempt.
+   * @param context - The message that could not be delivered.
+   */
+  constructor(attempts: number, cause: unknown, context: MessageContext = {}) {
+    super(
+      `Message not delivered after ${attempts} attempt(s): ${(cause as Error)?.message}`,
+      context,
+    )
+    this.name = 'DeliveryError'
+    this.attempts = attempts
+    this.cause = cause
+  }
+}
+
+/**
+ * Error raised when the access token does not allow an action on a topic.
+ */
+export class PermissionDeniedError extends RealtimeError {
+  action: string
+
+  /**
+   * Initializes a new instance of the `PermissionDeniedError` class.
+   *
+   * @param action - The denied action, e.g. `'subscribe'`.
+   * @param context - The message or topic the action applies to.
+   */
+  constructor(action: string, context: MessageContext = {}) {
+    super(`Permission denied: ${action} ${context.topic}`, context)
+    this.name = 'PermissionDeniedError'
+    this.action = action
+  }
+}
+
+/**
+ * Converts an error into a plain object that can be sent in a reply payload.
+ *
+ * @param err - The error to serialize. Values that are not `Error` instances are returned as is.
+ * @returns An object carrying the error `name` and `message`, plus the `issues` of a `ValidationError`,
+ * or the original value.
+ */
+export const serializeError = (err: unknown): any => {
+  if (err instanceof ValidationError) {
+    return {name: err.name, message: err.message, issues: err.issues}
+  }
+  return err instanceof Error ? {name: err.name, message: err.message} : err
+}
@@ -0,0 +1,95 @@
+import {HeartbeatOptions, StaleConnectionEvent} from './interfaces'
+
+/**
+ * Liveness monitor of a connection, based on the time elapsed since the last incoming frame.
+ *
+ * Sends a ping once the connection has been idle for the heartbeat interval, records the round-trip time
+ * of acknowledged pings, and reports the connection as stale once it has been idle for the timeout.
+ */
+export class Heartbeat {
+  private timer?: ReturnType<typeof setInterval>
+  private lastReceivedAt: number = 0
+  private history: number[] = []
+  private interval: number
+  private timeout: number
+  private historySize: number
+  private ping: () => Promise<unknown>
+  private onStale: (event: StaleConnectionEvent) => void
+
+  /**
+   * Initializes a new instance of the `Heartbeat` class.
+   *
+   * @param options - The ping interval, the stale timeout and the RTT history size.
+   * Default to `10000` ms, `30000` ms and `10` samples.
+   * @param ping - Sends a ping, returning a promise that resolves once it is acknowledged.
+   * @param onStale - Called once the connection is stale. The monitor is stopped beforehand.
+   */
+  constructor(
+    options: HeartbeatOptions,
+    ping: () => Promise<unknown>,
+    onStale: (event: StaleConnectionEvent) => void,
+  ) {
+    this.interval = options.interval ?? 10000
+    this.timeout = options.timeout ?? 30000
+    this.historySize = options.historySize ?? 10
+    this.ping = ping
+    this.onStale = onStale
+  }
+
+  /**
+   * Round-trip times of the latest acknowledged pings in milliseconds, oldest first.
+   */
+  get rtt(): number[] {
+    return [...this.history]
+  }
+
+  /**
+   * Starts monitoring, e.g. once a session starts. The connection is considered active at this point.
+   */
+  start(): void {
+    this.stop()
+    this.lastReceivedAt = Date.now()
+    // Check twice per interval, so pings are sent at most half an interval late
+    this.timer = setInterval(() => this.check(), this.interval / 2)
+  }
+
+  /**
+   * Stops monitoring, e.g. once the connection closes.
+   */
+  stop(): void {
+    clearInterval(this.timer)
+    this.timer = undefined
+  }
+
+  /**
+   * Records an incoming frame.
+   */
+  touch(): void {
+    this.lastReceivedAt = Date.now()
+  }
+
+  /**
+   * Reports the connection as stale if it has been idle for the timeout, or sends a ping if it has been idle
+   * for the interval.
+   */
+  private check(): void {
+    const idle = Date.now() - this.lastReceivedAt
+
+    if (idle >= this.timeout) {
+      this.stop()
+      this.onStale({idle, rtt: this.rtt})
+    } else if (idle >= this.interval) {
+      const sentAt = Date.now()
+      this.ping().then(
+        () => {
+          this.history.push(Date.now() - sentAt)
+          if (this.history.length > this.historySize) {
+            this.history.shift()
+          }
+        },
+        // Unacknowledged pings are reported through the stale timeout
+        () => {},
+      )
+    }
+  }
+}
@@ -1,2 +1,5 @@
 export * from './client'
 export * from './interfaces'
+export * from './errors'
+export * from './codecs'
+export * from './transport'
@@ -1,5 +1,130 @@
 import {CancelablePromise, ConstructorOptions} from 'eventemitter2'
 import {Options} from 'reconnecting-websocket'
+import {DeliveryError} from './errors'
+
+/**
+ * Interface describing the payload and reply types of a message.
+ *
+ * Used as the value type of a `MessageSchema`.
+ */
+export interface MessageDefinition {
+  /**
+   * The type of the message payload.
+   */
+  payload?: any
+
+  /**
+   * The type of the reply data, for request-response messages.
+   */
+  reply?: any
+}
+
+/**
+ * Schema mapping `topic.messageType` keys to the payload and reply types of each message. Keys are split on
+ * their last dot, so topics may contain dots but message types may not.
+ *
+ * Passed as the type parameter of `RealtimeClient` to get type-checked topics, message types, payloads and replies.
+ * Messages sent to the backend through `send()` or `call()` are keyed under the `'secure/inbound'` topic,
+ * where the backend receives them.
+ *
+ * @example
+ * ```typescript
+ * type AppSchema = {
+ *   'notifications.firmware-update': {payload: {version: string}}
+ *   'clock.gettime': {payload: {zone: string}; reply: {time: string}}
+ * }
+ *
+ * const client = new RealtimeClient<AppSchema>(options)
+ * ```
+ */
+export type MessageSchema = Record<string, MessageDefinition>
+
+/**
+ * Topic of a `topic.messageType` schema key, i.e. the part before its last dot: `'orders.eu'` for `'orders.eu.created'`.
+ */
+type KeyTopic<Key> = Key extends `${infer Head}.${infer Rest}`
+  ? Rest extends `${string}.${string}`
+    ? `${Head}.${KeyTopic<Rest>}`
+    : Head
+  : never
+
+/**
+ * Message type of a `topic.messageType` schema key, i.e. the part after its last dot.
+ */
+type KeyMessageType<Key> = Key extends `${string}.${infer Rest}`
+  ? Rest extends `${string}.${string}`
+    ? KeyMessageType<Rest>
+    : Rest
+  : never
+
+/**
+ * Topics declared by a schema, or `string` for the default untyped schema.
+ */
+export type SchemaTopic<Schema> = string extends keyof Schema
+  ? string
+  : {
+      [K in keyof Schema]: KeyTopic<K>
+    }[keyof Schema]
+
+/**
+ * Schema keys declared for the given topic.
+ */
+type TopicKeys<Schema, Topic extends string> = {
+  [K in keyof Schema]: KeyTopic<K> extends Topic ? K : never
+}[keyof Schema]
+
+/**
+ * Message types declared by a schema for the given topic, or `string` for the default untyped schema.
+ */
+export type SchemaMessageType<
+  Schema,
+  Topic extends string,
+> = string extends keyof Schema
+  ? string
+  : KeyMessageType<TopicKeys<Schema, Topic>>
+
+/**
+ * Listener event names accepted for a schema: its `topic.messageType` keys, plus the `topic.*` and
+ * `*.messageType` wildcards. Any string is accepted for the default untyped schema.
+ */
+export type SchemaEvent<Schema> = string extends keyof Schema
+  ? string
+  : | Extract<keyof Schema, string>
+    | `${SchemaTopic<Schema>}.*`
+    | `*.${SchemaMessageType<Schema, string>}`
+
+/**
+ * Schema keys matched by a listener event name, resolving the `topic.*` and `*.messageType` wildcards.
+ */
+export type SchemaMatch<Schema, Event> = Event extends keyof Schema
+  ? Event
+  : Event extends `*.${infer MessageType}`
+    ? Exclude<
+        Extract<keyof Schema, `${string}.${MessageType}`>,
+        // The wildcard matches a single segment, i.e. topics without dots
+        `${string}.${string}.${string}`
+      >
+    : Event extends `${infer Topic}.*`
+      ? TopicKeys<Schema, Topic>
+      : never
+
+/**
+ * Payload type of the given schema keys, a union if several keys are given. Defaults to `any`.
+ */
+export type SchemaPayload<Schema, Key> = Key extends keyof Schema
+  ? 'payload' extends keyof Schema[Key]
+    ? Schema[Key]['payload']
+    : any
+  : any
+
+/**
+ * Reply type of the given schema keys, a union if several keys are given. Defaults to `any`.
+ */
+export type SchemaReply<Schema, Key> = Key extends keyof Schema
+  ? 'reply' extends keyof Schema[Key]
+    ? Schema[Key]['reply']
+    : any
+  : any
 
 /**
  * Interface representing connection information.
@@ -29,12 +154,48 @@ export interface ConnectionInfo {
   remoteAddress: string
 }
 
+/**
+ * Connection state of the `RealtimeClient`.
+ *
+ * Transitions are notified through the `'state.changed'` event.
+ */
+export type ConnectionState =
+  'idle' | 'connecting' | 'open' | 'reconnecting' | 'closing' | 'closed'
+
+/**
+ * Interface representing a connection state transition.
+ *
+ * Emitted as the payload of the `'state.changed'` event. Every reconnection attempt is notified, including
+ * `'reconnecting'` to `'reconnecting'` transitions when an attempt fails and the next one starts.
+ */
+export interface StateChangeEvent {
+  /**
+   * The state before the transition.
+   */
+  previous: ConnectionState
+
+  /**
+   * The state after the transition.
+   */
+  next: ConnectionState
+
+  /**
+   * The connection attempt number, `0` for the initial connection and incremented on every reconnection attempt.
+   */
+  attempt: number
+
+  /**
+   * The code of the last WebSocket close event, if any.
+   */
+  closeCode?: number
+}
+
 /**
  * Interface representing options for outgoing messages.
  *
  * Configures various aspects of messages sent to the Realtime Pub/Sub service.
  */
-export interface MessageOptions {
+export interface MessageOptions<MessageType extends string = string> {
   /**
    * Optional message identifier.
    *
@@ -47,32 +208,648 @@ export interface MessageOptions {
    *
    * Used to categorize or handle different types of messages appropriately. Default value: `'broadcast'`.
    */
+  messageType?: MessageType
+
+  /**
+   * Asks the Messaging Gateway to compress the message when delivering it to subscribers.
+   *
+   * Compression can reduce the size of the message, leading to faster transmission times.
+   * See `ClientOptions.compression` to compress outgoing frames on the client.
+   */
+  compress?: boolean
+
+  /**
+   * Optional signal to abort the message.
+   *
+   * Aborting removes the message from the outbound queue if it has not been sent yet,
+   * and cancels any acknowledgement or reply being waited for.
+   */
+  signal?: AbortSignal
+
+  /**
+   * Enables at-least-once delivery: the message is resent with the same identifier until it is acknowledged.
+   *
+   * Requires the "WebSocket Inbound ACK" application setting. See `WaitForFactory.waitForDelivery()`.
+   */
+  delivery?: DeliveryOptions
+}
+
+/**
+ * Interface representing the at-least-once delivery options of a message.
+ */
+export interface DeliveryOptions {
+  /**
+   * Maximum number of times the message is resent after the first attempt. Default value: `3`.
+   */
+  retries?: number
+
+  /**
+   * Maximum duration in milliseconds to wait for the acknowledgement of each attempt. Default value: `5000`.
+   */
+  timeout?: number
+
+  /**
+   * Delay in milliseconds before resending the message, doubled after every attempt,
+   * or a function returning the delay before the given retry (starting at `1`). Default value: `1000`.
+   */
+  backoff?: number | ((retry: number) => number)
+
+  /**
+   * Fraction of each delay, between `0` and `1`, randomly subtracted from it to spread the retries of
+   * concurrent clients. Default value: `0.2`.
+   */
+  jitter?: number
+}
+
+/**
+ * Interface representing a successful message delivery.
+ */
+export interface DeliveryReport {
+  /**
+   * Identifier of the message, shared by every attempt.
+   */
+  id: string
+
+  /**
+   * Number of attempts made until the message was acknowledged.
+   */
+  attempts: number
+}
+
+/**
+ * Interface representing a message that could not be delivered.
+ *
+ * Emitted as the payload of the `'delivery.failed'` event, e.g. to route the message to a dead-letter handler.
+ */
+export interface DeliveryFailedEvent {
+  /**
+   * The undelivered message frame.
+   */
+  frame: OutboundFrame
+
+  /**
+   * The delivery error, carrying the number of attempts made and the error of the last one.
+   */
+  error: DeliveryError
+}
+
+/**
+ * Policy applied when the outbound queue is full.
+ *
+ * - `'drop-oldest'`: discards the oldest buffered message to make room for the new one.
+ * - `'drop-newest'`: discards the new message.
+ * - `'reject'`: throws an error from `publish()`/`send()`.
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'reject'
+
+/**
+ * Interface representing the outbound queue configuration.
+ *
+ * The outbound queue buffers messages published or sent while no session is active,
+ * and flushes them in order once the session starts.
+ */
+export interface OutboundQueueOptions {
+  /**
+   * Maximum number of buffered messages. Default value: `1000`.
+   */
+  maxSize?: number
+
+  /**
+   * Policy applied when the queue is full. Default value: `'drop-oldest'`.
+   */
+  overflow?: OverflowPolicy
+}
+
+/**
+ * Interface representing the in-flight requests registry configuration.
+ *
+ * The registry tracks acknowledgements and replies being waited for, so they can be rejected
+ * as soon as the connection drops instead of waiting out their timeout.
+ */
+export interface PendingRequestsOptions {
+  /**
+   * Maximum number of in-flight requests. When exceeded, the oldest request is rejected. Default value: `10000`.
+   */
+  maxSize?: number
+
+  /**
+   * Keeps in-flight requests pending while the client reconnects, instead of rejecting them
+   * when the connection drops. They are still rejected on `disconnect()` or once no further
+   * reconnection attempt is made. Default value: `false`.
+   */
+  keepOnReconnect?: boolean
+}
+
+/**
+ * Interface describing an in-flight request, for debugging purposes.
+ */
+export interface PendingRequestInfo {
+  /**
+   * Identifier of the message being acknowledged or answered.
+   */
+  id: string
+
+  /**
+   * Whether an acknowledgement or a reply is being waited for.
+   */
+  kind: 'ack' | 'reply'
+
+  /**
+   * The topic the message was published to, if any.
+   */
+  topic?: string
+
+  /**
+   * The type of the message.
+   */
+  messageType?: string
+
+  /**
+   * Milliseconds elapsed since the message was sent.
+   */
+  age: number
+}
+
+/**
+ * Interface describing a validation issue, compatible with Standard Schema issues.
+ */
+export interface ValidationIssue {
+  /**
+   * Description of the issue.
+   */
+  readonly message: string
+
+  /**
+   * Optional path to the invalid value within the payload.
+   */
+  readonly path?: ReadonlyArray<PropertyKey | {readonly key: PropertyKey}>
+}
+
+/**
+ * Result of a Standard Schema validation: the validated value, or the validation issues.
+ */
+export type StandardSchemaResult =
+  | {readonly value: unknown; readonly issues?: undefined}
+  | {readonly issues: ReadonlyArray<ValidationIssue>}
+
+/**
+ * Interface of a [Standard Schema](https://standardschema.dev) compatible validator, as implemented
+ * by libraries such as Zod, Valibot or ArkType.
+ */
+export interface StandardSchemaV1 {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult | Promise<StandardSchemaResult>
+  }
+}
+
+/**
+ * Function type for plain payload validators.
+ *
+ * @param payload - The message payload to validate.
+ * @returns `true` or an empty array if the payload is valid, `false` or the validation issues otherwise.
+ * Thrown errors are reported as a validation issue.
+ */
+export type ValidatorFunction = (
+  payload: any,
+) =>
+  | boolean
+  | ReadonlyArray<ValidationIssue>
+  | Promise<boolean | ReadonlyArray<ValidationIssue>>
+
+/**
+ * Payload validator, either a plain function or a Standard Schema compatible validator.
+ */
+export type Validator = ValidatorFunction | StandardSchemaV1
+
+/**
+ * Interface representing the payload validation configuration.
+ */
+export interface ValidationOptions {
+  /**
+   * Validators of the message payloads, keyed by `topic.messageType`.
+   *
+   * Messages sent to the backend through `send()` are keyed under the `'secure/inbound'` topic.
+   */
+  validators?: Record<string, Validator>
+
+  /**
+   * Also validates the payloads of published and sent messages, throwing a `ValidationError` if invalid.
+   * Only synchronous validators are supported for outbound messages. Default value: `false`.
+   */
+  outbound?: boolean
+
+  /**
+   * Automatically replies with an `'error'` status to invalid incoming messages sent by a client,
+   * carrying the validation issues. Default value: `true`.
+   */
+  replyOnInvalid?: boolean
+}
+
+/**
+ * Interface representing an incoming message rejected by its validator.
+ *
+ * Emitted as the payload of the `'message.invalid'` event.
+ */
+export interface InvalidMessageEvent {
+  /**
+   * The rejected message.
+   */
+  message: IncomingMessage
+
+  /**
+   * The validation issues.
+   */
+  issues: ValidationIssue[]
+}
+
+/**
+ * Interface representing a frame sent to the Messaging Gateway.
+ */
+export interface OutboundFrame {
+  /**
+   * The frame type: `'publish'` and `'message'` for `publish()` and `send()`,
+   * `'subscribe'` and `'unsubscribe'` for remote topic subscriptions.
+   */
+  type: 'publish' | 'message' | 'subscribe' | 'unsubscribe'
+
+  /**
+   * The frame data, e.g. the topic, message type, payload and identifier of a published message.
+   */
+  data: Record<string, any>
+}
+
+/**
+ * Compression format of compressed frames.
+ *
+ * - `'gzip'`: gzip format (RFC 1952).
+ * - `'deflate'`: zlib format (RFC 1950).
+ */
+export type CompressionFormat = 'gzip' | 'deflate'
+
+/**
+ * Interface representing the client-side compression configuration.
+ *
+ * Outgoing frames whose encoded size reaches the threshold are compressed by the client and sent as binary frames.
+ * The Messaging Gateway must accept compressed frames.
+ */
+export interface CompressionOptions {
+  /**
+   * Minimum encoded frame size in bytes for a frame to be compressed. Default value: `1024`.
+   */
+  threshold?: number
+
+  /**
+   * The compression format. Default value: `'gzip'`.
+   */
+  format?: CompressionFormat
+}
+
+/**
+ * Interface representing the chunked transfer options.
+ *
+ * Outgoing payloads larger than the chunk size are split into numbered chunks sharing the message identifier,
+ * and reassembled by the receiving `RealtimeClient` before being emitted.
+ */
+export interface ChunkingOptions {
+  /**
+   * Maximum serialized payload size in bytes sent in a single message, larger payloads are split
+   * into chunks of this size. Default value: `65536`.
+   */
+  chunkSize?: number
+
+  /**
+   * Maximum duration in milliseconds to receive every chunk of an incoming message, counted from its first chunk.
+   * Default value: `30000`.
+   */
+  reassemblyTimeout?: number
+
+  /**
+   * Maximum total size in bytes of the incoming messages being reassembled at once.
+   * Messages exceeding the cap are discarded. Default value: `16777216` (16 MiB).
+   */
+  maxPendingBytes?: number
+}
+
+/**
+ * Interface representing the progress of a chunked message transfer.
+ *
+ * Emitted as the payload of the `'chunk.progress'` event, once per chunk sent or received.
+ */
+export interface ChunkProgressEvent {
+  /**
+   * Whether the message is being sent or received.
+   */
+  direction: 'outbound' | 'inbound'
+
+  /**
+   * Identifier of the message.
+   */
+  id: string
+
+  /**
+   * The topic of the message, if any.
+   */
+  topic?: string
+
+  /**
+   * The type of the message.
+   */
+  messageType?: string
+
+  /**
+   * Number of chunks sent to the WebSocket, or received, so far.
+   */
+  chunks: number
+
+  /**
+   * Total number of chunks of the message.
+   */
+  count: number
+
+  /**
+   * Serialized size of the whole payload in bytes.
+   */
+  size: number
+}
+
+/**
+ * Interface representing the deduplication options of incoming messages.
+ *
+ * Messages are identified by their topic and id. Duplicates received within the time-to-live are not emitted,
+ * and replies are identified by their request id, responder and sequence number.
+ */
+export interface DeduplicationOptions {
+  /**
+   * Maximum number of message ids remembered, the least recently seen ones are forgotten first.
+   * Default value: `10000`.
+   */
+  maxSize?: number
+
+  /**
+   * Duration in milliseconds a message id is remembered. Default value: `60000`.
+   */
+  ttl?: number
+
+  /**
+   * Optional per topic overrides, keyed by topic: a time-to-live in milliseconds,
+   * or `false` to disable deduplication of the topic.
+   */
+  topics?: Record<string, number | false>
+}
+
+/**
+ * Interface representing a suppressed duplicate message.
+ *
+ * Emitted as the payload of the `'message.duplicate'` event.
+ */
+export interface DuplicateMessageEvent {
+  /**
+   * The duplicate message.
+   */
+  message: IncomingMessage
+
+  /**
+   * Total number of duplicates suppressed by the client.
+   */
+  count: number
+}
+
+/**
+ * Interface representing the heartbeat options, detecting stale connections.
+ *
+ * Once no frame has been received for the interval, the client sends a ping to the backend, i.e. a message
+ * of the reserved ping type. If no frame is received for the timeout, the connection is considered stale
+ * and is reopened.
+ */
+export interface HeartbeatOptions {
+  /**
+   * Idle duration in milliseconds after which a ping is sent. Default value: `10000`.
+   */
+  interval?: number
+
+  /**
+   * Idle duration in milliseconds after which the connection is considered stale. Default value: `30000`.
+   */
+  timeout?: number
+
+  /**
+   * Reserved message type of the pings. Default value: `'heartbeat'`.
+   */
   messageType?: string
 
   /**
-   * Indicates whether to compress the message payload before sending.
+   * Number of round-trip time samples kept in the history. Default value: `10`.
+   */
+  historySize?: number
+}
+
+/**
+ * Interface representing a stale connection.
+ *
+ * Emitted as the payload of the `'connection.stale'` event, before the connection is reopened.
+ */
+export interface StaleConnectionEvent {
+  /**
+   * Duration in milliseconds since the last frame was received.
+   */
+  idle: number
+
+  /**
+   * Round-trip times in milliseconds of the latest acknowledged pings, oldest first.
+   */
+  rtt: number[]
+}
+
+/**
+ * Interface representing a wire codec, used for every frame sent or received by the `RealtimeClient`.
+ *
+ * The Messaging Gateway and the other peers must understand the encoding.
+ */
+export interface Codec {
+  /**
+   * Encodes an outgoing frame. Binary results are sent as `ArrayBuffer` frames.
+   *
+   * @param frame - The frame to encode.
+   * @returns The encoded frame, as text or bytes.
+   */
+  encode: (frame: OutboundFrame) => string | ArrayBuffer | Uint8Array
+
+  /**
+   * Decodes an incoming frame.
+   *
+   * @param data - The received frame, as text or bytes.
+   * @returns The decoded message, carrying its `topic`, `messageType` and `data`.
+   */
+  decode: (data: string | ArrayBuffer) => any
+}
+
+/**
+ * Function type for a middleware stage.
+ *
+ * Stages run in registration order. A stage passes the envelope on to the next stage by calling `next()`,
+ * optionally with a modified envelope, and drops it by returning without calling `next()`.
+ *
+ * @param envelope - The outgoing frame or incoming message.
+ * @param next - Passes the envelope, or its replacement, to the next stage.
+ */
+export type MiddlewareStage<T> = (
+  envelope: T,
+  next: (envelope?: T) => Promise<void>,
+) => void | Promise<void>
+
+/**
+ * Interface representing a middleware registered through `use()`.
+ */
+export interface Middleware {
+  /**
+   * Optional stage applied to outgoing frames before they are sent, including subscriptions.
+   */
+  outbound?: MiddlewareStage<OutboundFrame>
+
+  /**
+   * Optional stage applied to incoming messages before they are validated and emitted.
+   */
+  inbound?: MiddlewareStage<IncomingMessage>
+}
+
+/**
+ * Binary message payload, or binary value nested in a payload.
+ *
+ * Binary values are encoded transparently by the built-in codecs and delivered to receivers as `Uint8Array`.
+ * `Blob` values are read before the message is sent.
+ */
+export type BinaryPayload = Uint8Array | ArrayBuffer | Blob
+
+/**
+ * Function type for sending replies to incoming messages.
+ *
+ * Enables responding to messages received from other subscribers or backend services.
+ */
+export interface ReplyFunction<Reply = any> {
+  /**
+   * Sends a reply to an incoming message.
+   *
+   * @param data - The payload to send in the reply, binary data is delivered to the requester as `Uint8Array`.
+   * @param status - Status string indicating the result of the reply, e.g., `'ok'` or `'error'`.
+   * @param options - Optional message options for the reply.
+   *
+   * @returns A `WaitForFactory` instance to wait for acknowledgements or further replies.
+   */
+  (data: Reply, status: string, options?: MessageOptions): WaitForFactory
+
+  /**
+   * Starts a stream of replies to the incoming message.
+   *
+   * Useful for long-running requests producing results in pieces, e.g. progress updates followed by a final result.
+   * The requester consumes the stream through `replyStream()`.
+   *
+   * @returns A `ReplyStream` instance to write replies with.
+   */
+  stream: () => ReplyStream<Reply>
+}
+
+/**
+ * Interface representing a stream of replies to an incoming message.
+ *
+ * Every reply carries an increasing sequence number. The stream is closed by `end()` or `error()`,
+ * after which no further replies can be written.
+ */
+export interface ReplyStream<Reply = any> {
+  /**
+   * Sends an intermediate reply, e.g. a progress update or a partial result.
+   *
+   * @param chunk - The reply payload.
+   * @param options - Optional message options for the reply.
+   * @returns A `WaitForFactory` instance to wait for acknowledgements.
+   * @throws `RealtimeError` if the stream is already closed.
+   */
+  write: (chunk: Reply, options?: MessageOptions) => WaitForFactory
+
+  /**
+   * Sends the final reply with an `'ok'` status and closes the stream.
+   *
+   * @param final - Optional final reply payload.
+   * @param options - Optional message options for the reply.
+   * @returns A `WaitForFactory` instance to wait for acknowledgements.
+   * @throws `RealtimeError` if the stream is already closed.
+   */
+  end: (final?: Reply, options?: MessageOptions) => WaitForFactory
+
+  /**
+   * Sends a final reply with an `'error'` status and closes the stream.
+   *
+   * @param err - The error, serialized into its `name` and `message` if it is an `Error` instance.
+   * @param options - Optional message options for the reply.
+   * @returns A `WaitForFactory` instance to wait for acknowledgements.
+   * @throws `RealtimeError` if the stream is already closed.
+   */
+  error: (err: any, options?: MessageOptions) => WaitForFactory
+}
+
+/**
+ * Interface representing the context of a request received by a handler registered through `handle()`.
+ */
+export interface RequestContext<Payload = any> {
+  /**
+   * The incoming request message.
+   */
+  message: IncomingMessage<Payload>
+
+  /**
+   * Connection identifier of the requester.
+   */
+  connectionId: string
+
+  /**
+   * Signal aborted when the handler times out.
+   */
+  signal: AbortSignal
+}
+
+/**
+ * Function type for handling requests registered through `handle()`.
+ *
+ * @param payload - The request payload.
+ * @param context - The request context.
+ * @returns The reply data, or a promise resolving to it.
+ */
+export type RequestHandler<Payload = any, Reply = any> = (
+  payload: Payload,
+  context: RequestContext<Payload>,
+) => Reply | Promise<Reply>
+
+/**
+ * Interface representing options for request handlers registered through `handle()`.
+ */
+export interface HandleOptions {
+  /**
+   * Optional maximum duration of the handler in milliseconds.
    *
-   * Compression can reduce the size of the message, leading to faster transmission times.
+   * When exceeded, an `'error'` reply is sent and the context signal is aborted.
    */
-  compress?: boolean
+  timeout?: number
 }
 
 /**
- * Function type for sending replies to incoming messages.
- *
- * Enables responding to messages received from other subscribers or backend services.
+ * Interface representing options for requests sent through `call()`.
  */
-export interface ReplyFunction {
+export interface CallOptions<Topic extends string = string> extends Omit<
+  MessageOptions,
+  'messageType'
+> {
   /**
-   * Sends a reply to an incoming message.
-   *
-   * @param data - The payload to send in the reply.
-   * @param status - Status string indicating the result of the reply, e.g., `'ok'` or `'error'`.
-   * @param options - Optional message options for the reply.
-   *
-   * @returns A `WaitForFactory` instance to wait for acknowledgements or further replies.
+   * Optional topic to publish the request to. If not set, the request is sent to the backend.
+   */
+  topic?: Topic
+
+  /**
+   * The maximum duration to wait for the reply in milliseconds. Defaults to `5000` ms.
    */
-  (data: any, status: string, options?: MessageOptions): WaitForFactory
+  timeout?: number
 }
 
 /**
@@ -80,7 +857,7 @@ export interface ReplyFunction {
  *
  * Defines the structure of messages sent in response to incoming messages.
  */
-export interface ResponseMessage {
+export interface ResponseMessage<Data = any> {
   /**
    * Identifier of the original message to which this is a response.
    *
@@ -100,7 +877,21 @@ export interface ResponseMessage {
    *
    * Carries the actual data being sent in the reply.
    */
-  data: any
+  data: Data
+
+  /**
+   * Sequence number of the reply within a reply stream, starting at `0`.
+   *
+   * Only set on replies sent through a `ReplyStream`.
+   */
+  seq?: number
+
+  /**
+   * Indicates whether this reply is the last one of a reply stream.
+   *
+   * Only set on replies sent through a `ReplyStream`.
+   */
+  done?: boolean
 }
 
 /**
@@ -143,6 +934,146 @@ export interface Logger {
   debug: (message: string, data?: unknown) => void
 }
 
+/**
+ * Interface representing a WebSocket URL returned by the `urlProvider`, with the expiry of its access token.
+ */
+export interface ConnectionEndpoint {
+  /**
+   * The WebSocket URL.
+   */
+  url: string
+
+  /**
+   * Optional expiry of the access token embedded in the URL, as a timestamp in milliseconds or a `Date`.
+   *
+   * If not set, it is decoded from the `exp` claim of the JWT in the `access_token` query parameter.
+   */
+  expiresAt?: number | Date
+
+  /**
+   * Optional permissions granted by the access token, e.g. `realtime:subscriber:read:topic:*`.
+   *
+   * If not set, they are decoded from the `permissions` claim of the JWT in the `access_token` query parameter.
+   */
+  permissions?: string[]
+}
+
+/**
+ * Action checked against the permissions of the access token.
+ *
+ * - `'publish'`: publishing to a topic, granted by `realtime:publisher:write:topic:<pattern>` permissions.
+ * - `'subscribe'`: subscribing to a topic, granted by `realtime:subscriber:read:topic:<pattern>` permissions.
+ *   Only `secure/` topics require a permission.
+ */
+export type PermissionAction = 'publish' | 'subscribe'
+
+/**
+ * Interface representing the proactive token refresh options.
+ *
+ * The session is renewed shortly before the access token expires, through a make-before-break handover:
+ * a new connection is opened with a fresh URL, subscriptions are restored on it, and only then is the
+ * previous connection closed.
+ */
+export interface TokenRefreshOptions {
+  /**
+   * Duration in milliseconds before the token expiry at which the session is renewed. Sessions whose token
+   * lifetime is shorter are renewed after 80% of it instead. Default value: `30000`.
+   */
+  margin?: number
+
+  /**
+   * Duration in milliseconds the previous connection stays open after the handover, to receive the acknowledgements
+   * and replies still in flight. Default value: `1000`.
+   */
+  overlap?: number
+}
+
+/**
+ * Message event of a `Transport`.
+ */
+export interface TransportMessageEvent {
+  /**
+   * The received frame, as text or binary data, e.g. an `ArrayBuffer`.
+   */
+  data: any
+}
+
+/**
+ * Close event of a `Transport`.
+ */
+export interface TransportCloseEvent {
+  /**
+   * The close code, e.g. `1000` for a normal closure.
+   */
+  code: number
+
+  /**
+   * The close reason.
+   */
+  reason: string
+}
+
+/**
+ * Carrier of the frames exchanged with the Messaging Gateway.
+ *
+ * The default transport is a `WebSocketTransport`, reconnecting on its own after the connection is lost.
+ * A `MemoryTransport` pair links a client to a test driver in the same process.
+ */
+export interface Transport {
+  /**
+   * Opens the transport.
+   *
+   * @param url - Resolves the URL to connect to, on every connection attempt.
+   */
+  open(url: () => Promise<string>): void
+
+  /**
+   * Sends a frame.
+   *
+   * @param data - The frame, as text or binary data.
+   */
+  send(data: string | ArrayBuffer): void
+
+  /**
+   * Closes the transport for good.
+   *
+   * @param code - Optional close code.
+   * @param reason - Optional close reason.
+   */
+  close(code?: number, reason?: string): void
+
+  /**
+   * Closes the current connection and opens a new one. Only implemented by reconnecting transports.
+   *
+   * Reconnecting transports open a new connection after every close that is not requested through `close()`,
+   * following the `maxRetries` and `minUptime` WebSocket options.
+   *
+   * @param code - Optional close code.
+   * @param reason - Optional close reason.
+   */
+  reconnect?(code?: number, reason?: string): void
+
+  /**
+   * Number of reconnection attempts since the last connection was established. Only set by reconnecting transports.
+   */
+  readonly retryCount?: number
+
+  /**
+   * Called for every received frame.
+   */
+  onmessage: ((event: TransportMessageEvent) => void) | null
+
+  /**
+   * Called every time a connection closes.
+   */
+  onclose: ((event: TransportCloseEvent) => void) | null
+
+  /**
+   * Called on transport errors.
+   */
+  onerror: ((event: unknown) => void) | null
+}
+
 /**
  * WebSocket options interface.
  *
@@ -154,9 +1085,10 @@ type WebSocketOptions = {
    *
    * Typically includes authentication tokens or other necessary parameters for establishing the connection.
    *
-   * @returns A promise that resolves to the WebSocket URL as a string.
+   * @returns A promise that resolves to the WebSocket URL as a string, or to a `ConnectionEndpoint`
+   * carrying the expiry of its access token.
    */
-  urlProvider: () => Promise<string>
+  urlProvider: () => Promise<string | ConnectionEndpoint>
 
   /**
    * Optional custom message deserializer function.
@@ -164,7 +1096,10 @@ type WebSocketOptions = {
    * Transforms incoming WebSocket messages into JavaScript objects.
    * Useful for handling custom message formats or protocols.
    *
-   * @param data - The raw data received from the WebSocket.
+   * Binary frames are passed as received, and passed again decompressed only if they are compressed and the
+   * deserializer throws. They are decompressed beforehand if `ClientOptions.compression` is set.
+   *
+   * @param data - The data received from the WebSocket, as text or `ArrayBuffer`.
    * @returns An object representing the deserialized message.
    */
   messageDeserializer?: (data: any) => Object
@@ -183,6 +1118,13 @@ export interface ClientOptions {
    */
   websocketOptions: WebSocketOptions
 
+  /**
+   * Optional transport factory, called for every connection opened by the client.
+   *
+   * Defaults to a `WebSocketTransport` configured with the `websocketOptions`.
+   */
+  transport?: () => Transport
+
   /**
    * Optional custom logger for logging events and errors.
    *
@@ -196,6 +1138,76 @@ export interface ClientOptions {
    * Allows customization of event handling behaviors, such as enabling wildcard events.
    */
   emitterOptions?: ConstructorOptions
+
+  /**
+   * Optional configuration for the outbound queue.
+   *
+   * Controls how many messages are buffered while disconnected and what happens when the buffer is full.
+   */
+  outboundQueue?: OutboundQueueOptions
+
+  /**
+   * Optional configuration for the in-flight requests registry.
+   *
+   * Controls how many acknowledgements and replies can be waited for at once, and whether they survive reconnects.
+   */
+  pendingRequests?: PendingRequestsOptions
+
+  /**
+   * Optional client-side compression of large outgoing frames. Disabled by default.
+   *
+   * Compressed incoming frames are detected and decompressed regardless of this option, except for custom
+   * deserializers and codecs, whose frames are only decompressed if they fail to deserialize them as received
+   * unless this option is set (see `messageDeserializer`).
+   */
+  compression?: CompressionOptions
+
+  /**
+   * Optional wire codec used to encode outgoing frames and decode incoming ones.
+   *
+   * Defaults to `jsonCodec`. A custom `messageDeserializer` takes precedence for incoming frames.
+   */
+  codec?: Codec
+
+  /**
+   * Optional chunked transfer configuration, enabling the splitting of large outgoing payloads.
+   *
+   * Incoming chunked messages are always reassembled, with the default limits if not set.
+   */
+  chunking?: ChunkingOptions
+
+  /**
+   * Optional deduplication configuration, suppressing incoming messages already received,
+   * e.g. resent by a publisher or replayed after a reconnect. Disabled by default.
+   */
+  deduplication?: DeduplicationOptions
+
+  /**
+   * Optional heartbeat configuration, detecting and reopening stale connections, e.g. half-open TCP connections.
+   * Disabled by default.
+   */
+  heartbeat?: HeartbeatOptions
+
+  /**
+   * Checks subscriptions, publications and messages sent to `'secure/inbound'` locally against the permissions
+   * of the access token, throwing a `PermissionDeniedError` instead of sending frames the Messaging Gateway
+   * would reject by closing the connection. Disabled by default.
+   */
+  permissionCheck?: boolean
+
+  /**
+   * Optional proactive token refresh configuration, renewing the session before its access token expires.
+   * Disabled by default.
+   */
+  tokenRefresh?: TokenRefreshOptions
+
+  /**
+   * Optional payload validation configuration.
+   *
+   * Incoming messages failing validation are not delivered to listeners, and are notified through
+   * the `'message.invalid'` event instead.
+   */
+  validation?: ValidationOptions
 }
 
 /**
@@ -203,7 +1215,7 @@ export interface ClientOptions {
  *
  * Represents the structure of messages received from the Realtime Pub/Sub service.
  */
-export interface IncomingMessage {
+export interface IncomingMessage<Payload = any> {
   /**
    * The topic of the message.
    *
@@ -223,14 +1235,184 @@ export interface IncomingMessage {
    *
    * Carries the actual information or commands sent within the message.
    */
-  data: any
+  data: IncomingMessageData<Payload>
 
   /**
-   * Indicates if the message payload is compressed.
+   * Indicates if the message was received compressed.
    *
    * Useful for determining if compression was applied to the message.
    */
   compression: boolean
+
+  /**
+   * Size in bytes of the received frame, after decompression.
+   */
+  rawSize?: number
+
+  /**
+   * Size in bytes of the received frame before decompression, only set if it was compressed.
+   */
+  compressedSize?: number
+}
+
+/**
+ * Interface representing the data of an incoming message.
+ *
+ * Messages published by clients carry their identifier, sender and payload.
+ * Other messages, e.g. gateway events, may carry arbitrary fields.
+ */
+export interface IncomingMessageData<Payload = any> {
+  /**
+   * Identifier of the message, if published by a client.
+   */
+  id?: string
+
+  /**
+   * The sender of the message, if published by a client.
+   */
+  client?: {connectionId: string; [key: string]: any}
+
+  /**
+   * The message payload, as published by the sender. Binary payloads are delivered as `Uint8Array`.
+   */
+  payload?: Payload
+
+  [key: string]: any
+}
+
+/**
+ * Function type for listeners of incoming messages.
+ *
+ * @param message - The incoming message.
+ * @param reply - Sends a reply to the sender of the message.
+ */
+export type MessageListener<Payload = any, Reply = any> = (
+  message: IncomingMessage<Payload>,
+  reply: ReplyFunction<Reply>,
+) => void
+
+/**
+ * Listener signatures of the events emitted by the `RealtimeClient` itself.
+ */
+export interface ClientEvents {
+  'session.started': (connection: ConnectionInfo) => void
+  'state.changed': (event: StateChangeEvent) => void
+  'connection.stale': (event: StaleConnectionEvent) => void
+  'outbound.dropped': (frame: Record<string, any>) => void
+  'message.invalid': (event: InvalidMessageEvent) => void
+  'message.duplicate': (event: DuplicateMessageEvent) => void
+  'chunk.progress': (event: ChunkProgressEvent) => void
+  'delivery.failed': (event: DeliveryFailedEvent) => void
+  error: (error: Error) => void
+  close: (event: TransportCloseEvent) => void
+}
+
+/**
+ * Interface representing options for waiting on acknowledgements.
+ */
+export interface WaitOptions {
+  /**
+   * Optional signal to cancel the wait. Aborting rejects the wait with an `AbortError`.
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Interface representing options for waiting on replies.
+ */
+export interface WaitForReplyOptions extends WaitOptions {
+  /**
+   * Rejects with a `RemoteError` if the reply status is not `'ok'`, instead of resolving with it.
+   * Default value: `false`.
+   */
+  rejectOnError?: boolean
+}
+
+/**
+ * Interface representing options for collecting multiple replies to the same message.
+ */
+export interface WaitForRepliesOptions<Data = any> extends WaitOptions {
+  /**
+   * Optional number of replies after which collection stops.
+   */
+  count?: number
+
+  /**
+   * The maximum duration to collect replies in milliseconds. Defaults to `5000` ms.
+   */
+  timeout?: number
+
+  /**
+   * Optional predicate called for every reply, collection stops once it returns `true`.
+   *
+   * @param reply - The reply just received.
+   * @param replies - Every reply collected so far, including the last one.
+   */
+  until?: (
+    reply: CollectedReply<Data>,
+    replies: CollectedReply<Data>[],
+  ) => boolean
+}
+
+/**
+ * Interface representing options for consuming a stream of replies.
+ */
+export interface ReplyStreamOptions extends WaitOptions {
+  /**
+   * The maximum duration to wait for the next reply in milliseconds. Defaults to `5000` ms.
+   */
+  idleTimeout?: number
+}
+
+/**
+ * Policy applied when the buffer of a message stream is full.
+ *
+ * - `'drop-oldest'`: discards the oldest buffered message to make room for the new one.
+ * - `'drop-newest'`: discards the new message.
+ * - `'error'`: ends the stream, which throws a `RealtimeError` once the buffered messages are consumed.
+ */
+export type StreamOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'error'
+
+/**
+ * Interface representing options for consuming incoming messages through `stream()`.
+ */
+export interface StreamOptions {
+  /**
+   * Maximum number of messages buffered until the consumer reads them. Default value: `1000`.
+   */
+  bufferSize?: number
+
+  /**
+   * Policy applied when the buffer is full. Default value: `'drop-oldest'`.
+   */
+  overflow?: StreamOverflowPolicy
+
+  /**
+   * Subscribes to the remote topic of the event while the stream is consumed, unless the application subscribed it.
+   * Streams share their subscriptions, which last until the last of them ends.
+   * The event must name a single topic, e.g. `'orders.*'`. Default value: `false`.
+   */
+  subscribe?: boolean
+
+  /**
+   * Optional signal to end the stream. Aborting makes the iteration throw an `AbortError`.
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Interface representing a reply collected by `waitForReplies()`.
+ */
+export interface CollectedReply<Data = any> {
+  /**
+   * The reply message.
+   */
+  response: ResponseMessage<Data>
+
+  /**
+   * Connection identifier of the responder, if available.
+   */
+  connectionId?: string
 }
 
 /**
@@ -238,7 +1420,7 @@ export interface IncomingMessage {
  *
  * Provides methods to wait for acknowledgements from the Messaging Gateway or replies from other subscribers/services.
  */
-export interface WaitForFactory {
+export interface WaitForFactory<Reply = any> {
   /**
    * Waits for an acknowledgment from the Messaging Gateway indicating that the message has been successfully received.
    *
@@ -249,14 +1431,22 @@ export interface WaitForFactory {
    * - **"WebSocket Inbound ACK"** must be enabled in your application settings. This feature allows the Messaging Gateway to send acknowledgment events
    *   back to the client over the WebSocket connection.
    *
+   * If the message is buffered in the outbound queue, the timeout starts once the message is actually sent.
+   *
    * @param timeout - The maximum duration to wait for the acknowledgment in milliseconds. Defaults to `5000` ms.
+   * @param options - Optional settings, e.g. a `signal` to cancel the wait.
    *
    * @returns A `CancelablePromise<any[]>` that resolves when the acknowledgment is received or rejects if the timeout is exceeded.
    *
-   * @throws `Error` if the acknowledgment is not received within the specified timeout period.
-   * @throws `Error` if the WebSocket connection is not established or has been closed.
+   * @throws `AckTimeoutError` if the acknowledgment is not received within the specified timeout period.
+   * @throws `ConnectionClosedError` if the connection is closed before the message is sent or while waiting.
+   * @throws `RealtimeError` if the message is dropped from the outbound queue before being sent.
+   * @throws `AbortError` if the wait or the message is aborted.
    */
-  waitForAck: (timeout?: number) => CancelablePromise<any[]>
+  waitForAck: (
+    timeout?: number,
+    options?: WaitOptions,
+  ) => CancelablePromise<any[]>
 
   /**
    * Waits for a reply message from another subscriber or your backend service in response to a previously sent message.
@@ -268,12 +1458,94 @@ export interface WaitForFactory {
    * **Prerequisite:**
    * - Ensure that the recipient of the message (another subscriber or your backend service) is set up to send a reply message.
    *
+   * If the message is buffered in the outbound queue, the timeout starts once the message is actually sent.
+   *
    * @param timeout - The maximum duration to wait for the reply in milliseconds. Defaults to `5000` ms.
+   * @param options - Optional settings, e.g. `rejectOnError` to reject when the reply status is not `'ok'`,
+   * or a `signal` to cancel the wait.
+   *
+   * @returns A `CancelablePromise` that resolves with an array containing the reply message and the incoming message carrying it,
+   * or rejects if the timeout is exceeded.
+   *
+   * @throws `ReplyTimeoutError` if a reply is not received within the specified timeout period.
+   * @throws `RemoteError` if the reply status is not `'ok'` and the `rejectOnError` option is enabled.
+   * @throws `ConnectionClosedError` if the connection is closed before the message is sent or while waiting.
+   * @throws `RealtimeError` if the message is dropped from the outbound queue before being sent.
+   * @throws `AbortError` if the wait or the message is aborted.
+   */
+  waitForReply: (
+    timeout?: number,
+    options?: WaitForReplyOptions,
+  ) => CancelablePromise<[ResponseMessage<Reply>, IncomingMessage]>
+
+  /**
+   * Waits for the message to be delivered, i.e. acknowledged by the Messaging Gateway.
+   *
+   * If the message was sent with `delivery` options, it is resent with the same identifier until an acknowledgement
+   * arrives or the retries are exhausted, and every call returns the same promise. Otherwise, this is equivalent to
+   * `waitForAck()` with the default timeout.
+   *
+   * @returns A promise that resolves with the message identifier and the number of attempts made.
+   *
+   * @throws `DeliveryError` if the message is not acknowledged after every attempt, or cannot be resent.
+   * @throws `AbortError` if the message is aborted.
+   */
+  waitForDelivery: () => Promise<DeliveryReport>
+
+  /**
+   * Collects every reply to a previously published message, e.g. from multiple subscribers of a shared topic.
+   *
+   * Unlike `waitForReply()`, which resolves with the first reply, this method keeps collecting replies until
+   * the `count` is reached, the `until` predicate returns `true` or the timeout expires. Reaching the timeout
+   * is not an error, the replies collected so far are returned.
+   *
+   * If the message is buffered in the outbound queue, the timeout starts once the message is actually sent.
+   *
+   * @param options - The collection settings: `count`, `timeout`, `until` predicate and `signal`.
+   *
+   * @returns A `CancelablePromise<CollectedReply[]>` that resolves with the collected replies and the responders' connection ids.
+   *
+   * @throws `ConnectionClosedError` if the connection is closed before the message is sent or while collecting.
+   * @throws `RealtimeError` if the message is dropped from the outbound queue before being sent.
+   * @throws `AbortError` if the collection or the message is aborted.
+   *
+   * @example
+   * ```typescript
+   * const replies = await client
+   *   .publish('devices', {firmware: 'X'}, {messageType: 'firmware-check'})
+   *   .waitForReplies({timeout: 2000, until: (reply) => reply.response.status === 'error'})
+   * ```
+   */
+  waitForReplies: (
+    options?: WaitForRepliesOptions<Reply>,
+  ) => CancelablePromise<CollectedReply<Reply>[]>
+
+  /**
+   * Consumes a stream of replies to a previously sent message, as written by the responder through `reply.stream()`.
+   *
+   * Replies are yielded in sequence order, regardless of their arrival order. Iteration ends after the final reply
+   * sent through `end()`. A reply sent through `error()` makes the iteration throw a `RemoteError`. A plain reply
+   * (sent without a stream) is yielded as the only element.
+   *
+   * If the message is buffered in the outbound queue, the idle timeout starts once the message is actually sent.
+   *
+   * @param options - The consumption settings: `idleTimeout` and `signal`.
+   *
+   * @returns An `AsyncIterableIterator<ResponseMessage>` yielding the replies, each with its `seq` number.
    *
-   * @returns A `CancelablePromise<any[]>` that resolves with an array containing the reply message when received, or rejects if the timeout is exceeded.
+   * @throws `ReplyTimeoutError` if no reply is received within the idle timeout.
+   * @throws `RemoteError` if the responder ends the stream with an error.
+   * @throws `ConnectionClosedError` if the connection is closed before the message is sent or while streaming.
+   * @throws `AbortError` if the stream or the message is aborted.
    *
-   * @throws `Error` if a reply is not received within the specified timeout period.
-   * @throws `Error` if the WebSocket connection is not established or has been closed.
+   * @example
+   * ```typescript
+   * for await (const res of client.send(query, {messageType: 'report'}).replyStream()) {
+   *   console.log(res.seq, res.data)
+   * }
+   * ```
    */
-  waitForReply: (timeout?: number) => CancelablePromise<any[]>
+  replyStream: (
+    options?: ReplyStreamOptions,
+  ) => AsyncIterableIterator<ResponseMessage<Reply>>
 }
@@ -0,0 +1,72 @@
+import {MiddlewareStage} from './interfaces'
+import {RealtimeError} from './errors'
+
+/**
+ * Ordered chain of middleware stages applied to envelopes flowing in one direction.
+ *
+ * Envelopes are processed one at a time, in the order they enter the pipeline, so asynchronous
+ * stages cannot reorder messages. Each stage passes the envelope on by calling `next()`,
+ * optionally with a replacement envelope, or drops it by not calling `next()`.
+ */
+export class Pipeline<T> {
+  private stages: MiddlewareStage<T>[] = []
+  private tail: Promise<unknown> = Promise.resolve()
+
+  /**
+   * Number of registered stages.
+   */
+  get size(): number {
+    return this.stages.length
+  }
+
+  /**
+   * Appends a stage to the pipeline.
+   *
+   * @param stage - The middleware stage.
+   * @returns A function removing the stage.
+   */
+  add(stage: MiddlewareStage<T>): () => void {
+    this.stages.push(stage)
+
+    return () => {
+      this.stages = this.stages.filter((s) => s !== stage)
+    }
+  }
+
+  /**
+   * Runs an envelope through every stage, after the envelopes already in the pipeline.
+   *
+   * @param envelope - The envelope to process.
+   * @param done - Receives the envelope once it has passed every stage.
+   * @returns A promise that resolves to `true` if the envelope passed every stage, `false` if it was dropped,
+   * or rejects if a stage failed.
+   */
+  run(envelope: T, done: (envelope: T) => unknown): Promise<boolean> {
+    const stages = [...this.stages]
+    let passed = false
+
+    const dispatch = async (index: number, current: T): Promise<void> => {
+      if (index === stages.length) {
+        passed = true
+        await done(current)
+        return
+      }
+
+      let called = false
+      await stages[index](current, (next: T = current) => {
+        if (called) {
+          throw new RealtimeError('next() called multiple times')
+        }
+        called = true
+        return dispatch(index + 1, next)
+      })
+    }
+
+    const result = this.tail
+      .then(() => dispatch(0, envelope))
+      .then(() => passed)
+    this.tail = result.catch(() => {})
+
+    return result
+  }
+}
@@ -0,0 +1,488 @@
+/**
+ * Minimal, dependency-free MessagePack encoder and decoder.
+ *
+ * Values are encoded with JSON-like semantics: `undefined` properties and functions are skipped,
+ * objects exposing `toJSON()` (e.g. `Date`) are encoded through it, and byte arrays are encoded
+ * as MessagePack binaries. Decoding supports every MessagePack type, timestamps are decoded
+ * as `Date` instances and 64-bit integers beyond the safe integer range as `bigint`.
+ *
+ * @see https://github.com/msgpack/msgpack/blob/master/spec.md
+ */
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+/**
+ * Growable byte buffer used by the encoder.
+ */
+class Writer {
+  private bytes: Uint8Array = new Uint8Array(256)
+  private view: DataView = new DataView(this.bytes.buffer)
+  private length: number = 0
+
+  u8(value: number): void {
+    this.reserve(1).setUint8(this.length++, value)
+  }
+
+  u16(value: number): void {
+    this.reserve(2).setUint16(this.length, value)
+    this.length += 2
+  }
+
+  u32(value: number): void {
+    this.reserve(4).setUint32(this.length, value)
+    this.length += 4
+  }
+
+  i8(value: number): void {
+    this.reserve(1).setInt8(this.length++, value)
+  }
+
+  i16(value: number): void {
+    this.reserve(2).setInt16(this.length, value)
+    this.length += 2
+  }
+
+  i32(value: number): void {
+    this.reserve(4).setInt32(this.length, value)
+    this.length += 4
+  }
+
+  u64(value: bigint): void {
+    this.reserve(8).setBigUint64(this.length, value)
+    this.length += 8
+  }
+
+  i64(value: bigint): void {
+    this.reserve(8).setBigInt64(this.length, value)
+    this.length += 8
+  }
+
+  f64(value: number): void {
+    this.reserve(8).setFloat64(this.length, value)
+    this.length += 8
+  }
+
+  raw(bytes: Uint8Array): void {
+    this.reserve(bytes.length)
+    this.bytes.set(bytes, this.length)
+    this.length += bytes.length
+  }
+
+  /**
+   * Returns the encoded bytes.
+   */
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length)
+  }
+
+  /**
+   * Grows the buffer to fit the given number of additional bytes.
+   */
+  private reserve(size: number): DataView {
+    if (this.length + size > this.bytes.length) {
+      const bytes = new Uint8Array(
+        Math.max(this.bytes.length * 2, this.length + size),
+      )
+      bytes.set(this.bytes.subarray(0, this.length))
+      this.bytes = bytes
+      this.view = new DataView(bytes.buffer)
+    }
+    return this.view
+  }
+}
+
+/**
+ * Cursor over the bytes being decoded.
+ */
+class Reader {
+  private bytes: Uint8Array
+  private view: DataView
+  offset: number = 0
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  get remaining(): number {
+    return this.bytes.length - this.offset
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.advance(1))
+  }
+
+  u16(): number {
+    return this.view.getUint16(this.advance(2))
+  }
+
+  u32(): number {
+    return this.view.getUint32(this.advance(4))
+  }
+
+  i8(): number {
+    return this.view.getInt8(this.advance(1))
+  }
+
+  i16(): number {
+    return this.view.getInt16(this.advance(2))
+  }
+
+  i32(): number {
+    return this.view.getInt32(this.advance(4))
+  }
+
+  u64(): number | bigint {
+    return toSafeNumber(this.view.getBigUint64(this.advance(8)))
+  }
+
+  i64(): number | bigint {
+    return toSafeNumber(this.view.getBigInt64(this.advance(8)))
+  }
+
+  f32(): number {
+    return this.view.getFloat32(this.advance(4))
+  }
+
+  f64(): number {
+    return this.view.getFloat64(this.advance(8))
+  }
+
+  raw(length: number): Uint8Array {
+    const offset = this.advance(length)
+    return this.bytes.slice(offset, offset + length)
+  }
+
+  str(length: number): string {
+    const offset = this.advance(length)
+    return textDecoder.decode(this.bytes.subarray(offset, offset + length))
+  }
+
+  /**
+   * Moves the cursor forward, returning its previous position.
+   *
+   * @throws `RangeError` if the data ends before the given number of bytes.
+   */
+  private advance(length: number): number {
+    if (length > this.remaining) {
+      throw new RangeError('Unexpected end of MessagePack data')
+    }
+    const offset = this.offset
+    this.offset += length
+    return offset
+  }
+}
+
+/**
+ * Converts a 64-bit integer to a number if it is within the safe integer range.
+ */
+const toSafeNumber = (value: bigint): number | bigint =>
+  value >= BigInt(Number.MIN_SAFE_INTEGER) &&
+  value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value
+
+/**
+ * Writes a MessagePack integer, using the smallest representation.
+ */
+const writeInteger = (writer: Writer, value: number): void => {
+  if (value >= 0) {
+    if (value < 0x80) {
+      writer.u8(value)
+    } else if (value <= 0xff) {
+      writer.u8(0xcc)
+      writer.u8(value)
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd)
+      writer.u16(value)
+    } else if (value <= 0xffffffff) {
+      writer.u8(0xce)
+      writer.u32(value)
+    } else {
+      writer.u8(0xcf)
+      writer.u64(BigInt(value))
+    }
+  } else if (value >= -0x20) {
+    writer.i8(value)
+  } else if (value >= -0x80) {
+    writer.u8(0xd0)
+    writer.i8(value)
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1)
+    writer.i16(value)
+  } else if (value >= -0x80000000) {
+    writer.u8(0xd2)
+    writer.i32(value)
+  } else {
+    writer.u8(0xd3)
+    writer.i64(BigInt(value))
+  }
+}
+
+/**
+ * Writes the header of a variable length value, e.g. a string, binary, array or map.
+ *
+ * @param fix - The fixed-size type code and its maximum length, if the type has one.
+ * @param codes - The 8-bit length type code, if the type has one, followed by the 16 and 32-bit length type codes.
+ */
+const writeHeader = (
+  writer: Writer,
+  length: number,
+  fix: {code: number; max: number} | null,
+  codes: [number | null, number, number],
+): void => {
+  if (fix && length <= fix.max) {
+    writer.u8(fix.code | length)
+  } else if (codes[0] !== null && length <= 0xff) {
+    writer.u8(codes[0])
+    writer.u8(length)
+  } else if (length <= 0xffff) {
+    writer.u8(codes[1])
+    writer.u16(length)
+  } else {
+    writer.u8(codes[2])
+    writer.u32(length)
+  }
+}
+
+/**
+ * Writes any value, recursively.
+ */
+const writeValue = (writer: Writer, value: unknown): void => {
+  if (value === null || value === undefined) {
+    writer.u8(0xc0)
+  } else if (typeof value === 'boolean') {
+    writer.u8(value ? 0xc3 : 0xc2)
+  } else if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      writeInteger(writer, value)
+    } else {
+      writer.u8(0xcb)
+      writer.f64(value)
+    }
+  } else if (typeof value === 'bigint') {
+    if (value >= 0) {
+      writer.u8(0xcf)
+      writer.u64(value)
+    } else {
+      writer.u8(0xd3)
+      writer.i64(value)
+    }
+  } else if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value)
+    writeHeader(writer, bytes.length, {code: 0xa0, max: 31}, [0xd9, 0xda, 0xdb])
+    writer.raw(bytes)
+  } else if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    const bytes =
+      value instanceof ArrayBuffer
+        ? new Uint8Array(value)
+        : new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    writeHeader(writer, bytes.length, null, [0xc4, 0xc5, 0xc6])
+    writer.raw(bytes)
+  } else if (Array.isArray(value)) {
+    writeHeader(writer, value.length, {code: 0x90, max: 15}, [null, 0xdc, 0xdd])
+    for (const item of value) {
+      writeValue(writer, typeof item === 'function' ? null : item)
+    }
+  } else if (typeof (value as any).toJSON === 'function') {
+    writeValue(writer, (value as any).toJSON())
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(
+      ([, item]) => item !== undefined && typeof item !== 'function',
+    )
+    writeHeader(writer, entries.length, {code: 0x80, max: 15}, [
+      null,
+      0xde,
+      0xdf,
+    ])
+    for (const [key, item] of entries) {
+      writeValue(writer, key)
+      writeValue(writer, item)
+    }
+  } else {
+    // Functions and symbols, as JSON does within arrays
+    writer.u8(0xc0)
+  }
+}
+
+/**
+ * Reads an array of the given length.
+ */
+const readArray = (reader: Reader, length: number): unknown[] => {
+  const array = new Array(length)
+  for (let i = 0; i < length; i++) {
+    array[i] = readValue(reader)
+  }
+  return array
+}
+
+/**
+ * Reads a map of the given length into a plain object.
+ */
+const readMap = (reader: Reader, length: number): Record<string, unknown> => {
+  const map: Record<string, unknown> = {}
+  for (let i = 0; i < length; i++) {
+    const key = String(readValue(reader))
+    const value = readValue(reader)
+    if (key === '__proto__') {
+      // Never change the prototype of the decoded object
+      Object.defineProperty(map, key, {
+        value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      })
+    } else {
+      map[key] = value
+    }
+  }
+  return map
+}
+
+/**
+ * Reads an extension value of the given length. Timestamps are decoded as `Date` instances.
+ *
+ * @throws `Error` for extension types other than timestamps.
+ */
+const readExtension = (reader: Reader, length: number): Date => {
+  const type = reader.i8()
+  if (type !== -1) {
+    throw new Error(`Unsupported MessagePack extension type ${type}`)
+  }
+
+  if (length === 4) {
+    return new Date(reader.u32() * 1000)
+  } else if (length === 8) {
+    const high = reader.u32()
+    const low = reader.u32()
+    const nanoseconds = Math.floor(high / 4)
+    const seconds = (high & 0x3) * 0x100000000 + low
+    return new Date(seconds * 1000 + nanoseconds / 1e6)
+  } else if (length === 12) {
+    const nanoseconds = reader.u32()
+    const seconds = Number(reader.i64())
+    return new Date(seconds * 1000 + nanoseconds / 1e6)
+  }
+  throw new Error(`Invalid MessagePack timestamp length ${length}`)
+}
+
+/**
+ * Reads any value, recursively.
+ */
+const readValue = (reader: Reader): unknown => {
+  const code = reader.u8()
+
+  if (code <= 0x7f) {
+    return code
+  } else if (code <= 0x8f) {
+    return readMap(reader, code & 0x0f)
+  } else if (code <= 0x9f) {
+    return readArray(reader, code & 0x0f)
+  } else if (code <= 0xbf) {
+    return reader.str(code & 0x1f)
+  } else if (code >= 0xe0) {
+    return code - 0x100
+  }
+
+  switch (code) {
+    case 0xc0:
+      return null
+    case 0xc2:
+      return false
+    case 0xc3:
+      return true
+    case 0xc4:
+      return reader.raw(reader.u8())
+    case 0xc5:
+      return reader.raw(reader.u16())
+    case 0xc6:
+      return reader.raw(reader.u32())
+    case 0xc7:
+      return readExtension(reader, reader.u8())
+    case 0xc8:
+      return readExtension(reader, reader.u16())
+    case 0xc9:
+      return readExtension(reader, reader.u32())
+    case 0xca:
+      return reader.f32()
+    case 0xcb:
+      return reader.f64()
+    case 0xcc:
+      return reader.u8()
+    case 0xcd:
+      return reader.u16()
+    case 0xce:
+      return reader.u32()
+    case 0xcf:
+      return reader.u64()
+    case 0xd0:
+      return reader.i8()
+    case 0xd1:
+      return reader.i16()
+    case 0xd2:
+      return reader.i32()
+    case 0xd3:
+      return reader.i64()
+    case 0xd4:
+      return readExtension(reader, 1)
+    case 0xd5:
+      return readExtension(reader, 2)
+    case 0xd6:
+      return readExtension(reader, 4)
+    case 0xd7:
+      return readExtension(reader, 8)
+    case 0xd8:
+      return readExtension(reader, 16)
+    case 0xd9:
+      return reader.str(reader.u8())
+    case 0xda:
+      return reader.str(reader.u16())
+    case 0xdb:
+      return reader.str(reader.u32())
+    case 0xdc:
+      return readArray(reader, reader.u16())
+    case 0xdd:
+      return readArray(reader, reader.u32())
+    case 0xde:
+      return readMap(reader, reader.u16())
+    case 0xdf:
+      return readMap(reader, reader.u32())
+    default:
+      throw new Error(`Invalid MessagePack type code 0x${code.toString(16)}`)
+  }
+}
+
+/**
+ * Encodes a value as MessagePack.
+ *
+ * @param value - The value to encode.
+ * @returns The encoded bytes.
+ */
+export const encode = (value: unknown): Uint8Array => {
+  const writer = new Writer()
+  writeValue(writer, value)
+
+  return writer.result()
+}
+
+/**
+ * Decodes a MessagePack value.
+ *
+ * @param data - The encoded bytes.
+ * @returns The decoded value.
+ * @throws `Error` if the data is not a single valid MessagePack value.
+ */
+export const decode = (data: ArrayBuffer | ArrayBufferView): any => {
+  const reader = new Reader(
+    data instanceof ArrayBuffer
+      ? new Uint8Array(data)
+      : new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+  )
+  const value = readValue(reader)
+  if (reader.remaining > 0) {
+    throw new Error('Unexpected trailing bytes after MessagePack value')
+  }
+
+  return value
+}
@@ -0,0 +1,68 @@
+import {PermissionAction} from './interfaces'
+
+/**
+ * Permission prefixes of the actions, followed by a topic pattern in the permissions claim.
+ */
+const PREFIXES: Record<PermissionAction, string> = {
+  publish: 'realtime:publisher:write:topic:',
+  subscribe: 'realtime:subscriber:read:topic:',
+}
+
+/**
+ * Converts a topic pattern into a regular expression, `*` matching any sequence of characters.
+ *
+ * @param pattern - The topic pattern, e.g. `priv/*`.
+ * @returns The anchored regular expression.
+ */
+const toRegExp = (pattern: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .split('*')
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`,
+  )
+
+/**
+ * Permissions granted by the `permissions` claim of an access token, e.g. `realtime:subscriber:read:topic:*`.
+ *
+ * Mirrors the checks of the Messaging Gateway: publishing requires a matching publisher permission,
+ * and subscribing to a `secure/` topic requires a matching subscriber permission.
+ */
+export class Permissions {
+  private patterns: Record<PermissionAction, RegExp[]> = {
+    publish: [],
+    subscribe: [],
+  }
+
+  /**
+   * Initializes a new instance of the `Permissions` class.
+   *
+   * @param permissions - The permissions claim. Unknown permissions are ignored.
+   */
+  constructor(permissions: string[]) {
+    for (const permission of permissions) {
+      for (const action of Object.keys(PREFIXES) as PermissionAction[]) {
+        if (permission.startsWith(PREFIXES[action])) {
+          this.patterns[action].push(
+            toRegExp(permission.slice(PREFIXES[action].length)),
+          )
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks whether an action is allowed on a topic.
+   *
+   * @param action - The action, `'publish'` or `'subscribe'`.
+   * @param topic - The topic.
+   * @returns `true` if the action is allowed.
+   */
+  can(action: PermissionAction, topic: string): boolean {
+    if (action === 'subscribe' && !topic.startsWith('secure/')) {
+      return true
+    }
+
+    return this.patterns[action].some((pattern) => pattern.test(topic))
+  }
+}
@@ -0,0 +1,86 @@
+import {OutboundQueueOptions, OverflowPolicy} from './interfaces'
+import {RealtimeError} from './errors'
+
+/**
+ * Bounded FIFO buffer holding outbound frames while no session is active.
+ *
+ * When the queue is full, the configured overflow policy decides whether the oldest entry is dropped,
+ * the newest entry is dropped or the new entry is rejected with an error.
+ */
+export class OutboundQueue<T> {
+  private items: T[] = []
+  private maxSize: number
+  private overflow: OverflowPolicy
+
+  /**
+   * Initializes a new instance of the `OutboundQueue` class.
+   *
+   * @param options - The queue size and overflow policy. Defaults to `1000` entries and `'drop-oldest'`.
+   */
+  constructor(options: OutboundQueueOptions = {}) {
+    this.maxSize = options.maxSize ?? 1000
+    this.overflow = options.overflow ?? 'drop-oldest'
+  }
+
+  /**
+   * Number of entries currently buffered.
+   */
+  get size(): number {
+    return this.items.length
+  }
+
+  /**
+   * Appends an entry to the queue, applying the overflow policy if the queue is full.
+   *
+   * @param item - The entry to buffer.
+   *
+   * @returns The entry that was dropped to honor the overflow policy, if any.
+   *
+   * @throws `RealtimeError` if the queue is full and the overflow policy is `'reject'`.
+   */
+  enqueue(item: T): T | undefined {
+    if (this.items.length < this.maxSize) {
+      this.items.push(item)
+      return undefined
+    }
+
+    switch (this.overflow) {
+      case 'reject':
+        throw new RealtimeError('Outbound queue is full')
+      case 'drop-newest':
+        return item
+      default:
+        this.items.push(item)
+        return this.items.shift()
+    }
+  }
+
+  /**
+   * Removes an entry from the queue, e.g. when its delivery is aborted.
+   *
+   * @param item - The entry to remove.
+   *
+   * @returns `true` if the entry was buffered and has been removed.
+   */
+  remove(item: T): boolean {
+    const index = this.items.indexOf(item)
+    if (index === -1) {
+      return false
+    }
+
+    this.items.splice(index, 1)
+    return true
+  }
+
+  /**
+   * Removes and returns every buffered entry, in insertion order.
+   *
+   * @returns The buffered entries.
+   */
+  drain(): T[] {
+    const items = this.items
+    this.items = []
+
+    return items
+  }
+}
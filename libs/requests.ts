@@ -0,0 +1,123 @@
+import {PendingRequestInfo, PendingRequestsOptions} from './interfaces'
+import {MessageContext, RealtimeError} from './errors'
+
+/**
+ * In-flight acknowledgement or reply wait, tracked by the `PendingRequests` registry.
+ */
+export interface PendingRequest {
+  id: string
+  kind: 'ack' | 'reply'
+  context: MessageContext
+  createdAt: number
+  reject: (error: Error) => void
+}
+
+/**
+ * Bounded registry of in-flight acknowledgement and reply waits, keyed by message id.
+ *
+ * Allows rejecting every outstanding wait at once when the connection drops,
+ * instead of letting each one run into its timeout.
+ */
+export class PendingRequests {
+  private requests: Map<string, Set<PendingRequest>> = new Map()
+  private count: number = 0
+  private maxSize: number
+
+  /**
+   * Initializes a new instance of the `PendingRequests` class.
+   *
+   * @param options - The registry size limit. Defaults to `10000` requests.
+   */
+  constructor(options: PendingRequestsOptions = {}) {
+    this.maxSize = options.maxSize ?? 10000
+  }
+
+  /**
+   * Number of in-flight requests.
+   */
+  get size(): number {
+    return this.count
+  }
+
+  /**
+   * Registers an in-flight request.
+   *
+   * If the registry is full, the oldest request is evicted and rejected.
+   *
+   * @param request - The request to register.
+   */
+  add(request: PendingRequest): void {
+    let requests = this.requests.get(request.id)
+    if (!requests) {
+      requests = new Set()
+      this.requests.set(request.id, requests)
+    }
+    requests.add(request)
+    this.count++
+
+    if (this.count > this.maxSize) {
+      const group: Set<PendingRequest> = this.requests.values().next().value
+      const [oldest] = group
+      this.delete(oldest)
+      oldest.reject(
+        new RealtimeError('Too many pending requests', oldest.context),
+      )
+    }
+  }
+
+  /**
+   * Unregisters a request, e.g. once it is settled.
+   *
+   * @param request - The request to unregister.
+   */
+  delete(request: PendingRequest): void {
+    const requests = this.requests.get(request.id)
+    if (requests?.delete(request)) {
+      this.count--
+      if (requests.size === 0) {
+        this.requests.delete(request.id)
+      }
+    }
+  }
+
+  /**
+   * Unregisters and rejects every in-flight request.
+   *
+   * @param error - Creates the rejection error for each request.
+   */
+  rejectAll(error: (request: PendingRequest) => Error): void {
+    const requests = this.requests
+    this.requests = new Map()
+    this.count = 0
+
+    for (const group of requests.values()) {
+      for (const request of group) {
+        request.reject(error(request))
+      }
+    }
+  }
+
+  /**
+   * Describes every in-flight request, oldest first.
+   *
+   * @returns The id, kind, topic, message type and age of each request.
+   */
+  list(): PendingRequestInfo[] {
+    const now = Date.now()
+    const list: PendingRequestInfo[] = []
+
+    for (const group of this.requests.values()) {
+      for (const {id, kind, context, createdAt} of group) {
+        list.push({
+          id,
+          kind,
+          topic: context.topic,
+          messageType: context.messageType,
+          age: now - createdAt,
+        })
+      }
+    }
+
+    return list.sort((a, b) => b.age - a.age)
+  }
+}
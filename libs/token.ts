@@ -0,0 +1,64 @@
+/**
+ * Decodes the expiry of the JWT access token embedded in a WebSocket URL.
+ *
+ * The token is read from the `access_token` query parameter, and its signature is not verified.
+ *
+ * @param url - The WebSocket URL.
+ * @returns The `exp` claim of the token as a timestamp in milliseconds, or `null` if the URL carries no valid JWT
+ * or the token has no expiry.
+ */
+export const tokenExpiry = (url: string): number | null => {
+  const exp = tokenClaims(url)?.exp
+
+  return typeof exp === 'number' ? exp * 1000 : null
+}
+
+/**
+ * Decodes the permissions of the JWT access token embedded in a WebSocket URL.
+ *
+ * @param url - The WebSocket URL.
+ * @returns The `permissions` claim of the token, or `null` if the URL carries no valid JWT
+ * or the token has no permissions claim.
+ */
+export const tokenPermissions = (url: string): string[] | null => {
+  const permissions = tokenClaims(url)?.permissions
+
+  return Array.isArray(permissions) ? permissions : null
+}
+
+/**
+ * Decodes the claims of the JWT access token embedded in a WebSocket URL.
+ *
+ * @param url - The WebSocket URL.
+ * @returns The token claims, or `null` if the URL carries no valid JWT.
+ */
+const tokenClaims = (url: string): Record<string, any> | null => {
+  try {
+    return decodeClaims(new URL(url).searchParams.get('access_token'))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Decodes the claims of a JWT, without verifying its signature.
+ *
+ * @param token - The JWT.
+ * @returns The token claims, or `null` if the token is not a JWT.
+ * @throws `SyntaxError` if the token payload is not valid JSON.
+ */
+export const decodeClaims = (
+  token: string | null,
+): Record<string, any> | null => {
+  const payload = token?.split('.')[1]
+  if (!payload) {
+    return null
+  }
+
+  // Base64url encoding, without padding
+  const base64 = payload.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+
+  return JSON.parse(new TextDecoder().decode(bytes))
+}
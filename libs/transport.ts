@@ -0,0 +1,222 @@
+import ReconnectingWebSocket, {Options} from 'reconnecting-websocket'
+import {
+  Transport,
+  TransportCloseEvent,
+  TransportMessageEvent,
+} from './interfaces'
+
+/**
+ * Transport over a `ReconnectingWebSocket`, opening a new connection whenever the current one is lost.
+ */
+export class WebSocketTransport implements Transport {
+  onmessage: ((event: TransportMessageEvent) => void) | null = null
+  onclose: ((event: TransportCloseEvent) => void) | null = null
+  onerror: ((event: unknown) => void) | null = null
+  private ws: ReconnectingWebSocket | null = null
+  private options: Options
+
+  /**
+   * Initializes a new instance of the `WebSocketTransport` class.
+   *
+   * @param options - The `ReconnectingWebSocket` options, e.g. `maxRetries`.
+   */
+  constructor(options: Options = {}) {
+    this.options = options
+  }
+
+  /**
+   * Number of reconnection attempts since the last connection was established.
+   */
+  get retryCount(): number {
+    return this.ws?.retryCount ?? 0
+  }
+
+  /**
+   * Opens the WebSocket.
+   *
+   * @param url - Resolves the URL to connect to, on every connection attempt.
+   */
+  open(url: () => Promise<string>): void {
+    const ws = new ReconnectingWebSocket(url, [], this.options)
+    // Receive binary frames as ArrayBuffer, ready to be decoded
+    ws.binaryType = 'arraybuffer'
+    ws.onmessage = (event: MessageEvent) => this.onmessage?.(event)
+    ws.onerror = (event: ErrorEvent) => this.onerror?.(event)
+    ws.onclose = (event: CloseEvent) => this.onclose?.(event)
+    this.ws = ws
+  }
+
+  /**
+   * Sends a frame. Frames sent while disconnected are buffered by the `ReconnectingWebSocket`.
+   *
+   * @param data - The frame.
+   */
+  send(data: string | ArrayBuffer): void {
+    this.ws?.send(data)
+  }
+
+  /**
+   * Closes the WebSocket for good.
+   *
+   * @param code - Optional close code.
+   * @param reason - Optional close reason.
+   */
+  close(code?: number, reason?: string): void {
+    this.ws?.close(code, reason)
+  }
+
+  /**
+   * Closes the current connection and opens a new one.
+   *
+   * @param code - Optional close code.
+   * @param reason - Optional close reason.
+   */
+  reconnect(code?: number, reason?: string): void {
+    this.ws?.reconnect(code, reason)
+  }
+}
+
+/**
+ * In-memory transport, linked to a peer transport in the same process. Frames sent by one end are received
+ * by the other, asynchronously and in order.
+ *
+ * Frames received before an end is opened are buffered until it opens. Closing an end closes its peer with
+ * the same code and reason. Memory transports never reconnect.
+ */
+export class MemoryTransport implements Transport {
+  onmessage: ((event: TransportMessageEvent) => void) | null = null
+  onclose: ((event: TransportCloseEvent) => void) | null = null
+  onerror: ((event: unknown) => void) | null = null
+  private peer: MemoryTransport | null = null
+  private state: 'idle' | 'opening' | 'open' | 'closed' = 'idle'
+  private inbox: (string | ArrayBuffer)[] = []
+
+  /**
+   * Initializes a new instance of the `MemoryTransport` class. Use `createMemoryTransportPair()` instead.
+   *
+   * @param peer - Optional transport to link with.
+   */
+  constructor(peer?: MemoryTransport) {
+    if (peer) {
+      this.peer = peer
+      peer.peer = this
+    }
+  }
+
+  /**
+   * Opens the transport, right away or once the URL is resolved if a URL resolver is given.
+   *
+   * @param url - Optional URL resolver. The URL itself is ignored.
+   */
+  open(url?: () => Promise<string>): void {
+    if (this.state !== 'idle') {
+      return
+    }
+
+    this.state = 'opening'
+    if (url) {
+      // The transport may have been closed while the URL was resolved
+      url().then(
+        () => this.state === 'opening' && this.flush(),
+        (error) => {
+          this.onerror?.(error)
+          this.close(1006, 'Unable to resolve URL')
+        },
+      )
+    } else {
+      this.flush()
+    }
+  }
+
+  /**
+   * Sends a frame to the peer transport. Binary frames are copied.
+   *
+   * @param data - The frame.
+   *
+   * @throws `Error` if the transport is not open.
+   */
+  send(data: string | ArrayBuffer): void {
+    if (this.state !== 'open') {
+      throw new Error('Transport is not open')
+    }
+
+    this.peer?.receive(data instanceof ArrayBuffer ? data.slice(0) : data)
+  }
+
+  /**
+   * Closes the transport and its peer.
+   *
+   * @param code - Optional close code. Defaults to `1000`.
+   * @param reason - Optional close reason.
+   */
+  close(code: number = 1000, reason: string = ''): void {
+    if (this.state === 'closed') {
+      return
+    }
+
+    this.state = 'closed'
+    this.inbox = []
+    queueMicrotask(() => this.onclose?.({code, reason}))
+    this.peer?.close(code, reason)
+  }
+
+  /**
+   * Marks the transport as open, and delivers the frames received meanwhile.
+   */
+  private flush(): void {
+    this.state = 'open'
+    for (const data of this.inbox.splice(0)) {
+      this.deliver(data)
+    }
+  }
+
+  /**
+   * Receives a frame from the peer transport, buffering it until the transport is open.
+   *
+   * @param data - The frame.
+   */
+  private receive(data: string | ArrayBuffer): void {
+    if (this.state === 'open') {
+      this.deliver(data)
+    } else if (this.state !== 'closed') {
+      this.inbox.push(data)
+    }
+  }
+
+  /**
+   * Delivers a frame to the message callback, asynchronously.
+   *
+   * @param data - The frame.
+   */
+  private deliver(data: string | ArrayBuffer): void {
+    queueMicrotask(() => {
+      if (this.state === 'open') {
+        this.onmessage?.({data})
+      }
+    })
+  }
+}
+
+/**
+ * Creates a pair of linked in-memory transports, e.g. to drive a client from a test.
+ *
+ * @returns The transport to give to the client, and its peer.
+ *
+ * @example
+ * ```typescript
+ * const [transport, peer] = createMemoryTransportPair()
+ * const client = new RealtimeClient({websocketOptions: {urlProvider}, transport: () => transport})
+ *
+ * peer.onmessage = ({data}) => console.log('Frame sent by the client:', JSON.parse(data))
+ * peer.open()
+ * peer.send(JSON.stringify({topic: 'main', messageType: 'welcome', data: {connection}}))
+ * ```
+ */
+export const createMemoryTransportPair = (): [
+  MemoryTransport,
+  MemoryTransport,
+] => {
+  const transport = new MemoryTransport()
+
+  return [transport, new MemoryTransport(transport)]
+}
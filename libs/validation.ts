@@ -0,0 +1,153 @@
+import {
+  StandardSchemaResult,
+  StandardSchemaV1,
+  ValidationIssue,
+  Validator,
+} from './interfaces'
+
+/**
+ * Outcome of a payload validation.
+ */
+export interface ValidationResult {
+  /**
+   * The validated payload, possibly transformed by a Standard Schema validator.
+   */
+  value: any
+
+  /**
+   * The validation issues, empty if the payload is valid.
+   */
+  issues: ValidationIssue[]
+}
+
+/**
+ * Checks whether a validator implements the Standard Schema interface.
+ *
+ * @param validator - The validator to check.
+ * @returns `true` if the validator is a Standard Schema validator.
+ */
+const isStandardSchema = (
+  validator: Validator,
+): validator is StandardSchemaV1 =>
+  typeof validator === 'object' &&
+  validator !== null &&
+  '~standard' in validator
+
+/**
+ * Registry of payload validators, keyed by `topic.messageType`.
+ *
+ * Validators run synchronously unless they return a promise, so messages without
+ * asynchronous validators are not delayed.
+ */
+export class Validators {
+  private validators: Map<string, Validator>
+
+  /**
+   * Initializes a new instance of the `Validators` class.
+   *
+   * @param validators - The initial validators, keyed by `topic.messageType`.
+   */
+  constructor(validators: Record<string, Validator> = {}) {
+    this.validators = new Map(Object.entries(validators))
+  }
+
+  /**
+   * Registers a validator, replacing the one registered for the same key, if any.
+   *
+   * @param key - The `topic.messageType` key.
+   * @param validator - The validator.
+   */
+  set(key: string, validator: Validator): void {
+    this.validators.set(key, validator)
+  }
+
+  /**
+   * Unregisters a validator, unless it was replaced in the meantime.
+   *
+   * @param key - The `topic.messageType` key.
+   * @param validator - The validator to unregister.
+   */
+  delete(key: string, validator: Validator): void {
+    if (this.validators.get(key) === validator) {
+      this.validators.delete(key)
+    }
+  }
+
+  /**
+   * Validates a payload against the validator registered for the given key.
+   *
+   * Errors thrown or rejected by the validator are reported as a validation issue.
+   *
+   * @param key - The `topic.messageType` key.
+   * @param payload - The payload to validate.
+   * @returns The validation result, a promise resolving to it for asynchronous validators,
+   * or `null` if no validator is registered for the key.
+   */
+  validate(
+    key: string,
+    payload: any,
+  ): ValidationResult | Promise<ValidationResult> | null {
+    const validator = this.validators.get(key)
+    if (!validator) {
+      return null
+    }
+
+    const fail = (error: unknown): ValidationResult => ({
+      value: payload,
+      issues: [{message: (error as Error)?.message ?? String(error)}],
+    })
+
+    try {
+      if (isStandardSchema(validator)) {
+        const result = validator['~standard'].validate(payload)
+        return result instanceof Promise
+          ? result.then((res) => this.fromStandard(payload, res), fail)
+          : this.fromStandard(payload, result)
+      }
+
+      const result = validator(payload)
+      return result instanceof Promise
+        ? result.then((res) => this.fromFunction(payload, res), fail)
+        : this.fromFunction(payload, result)
+    } catch (error) {
+      return fail(error)
+    }
+  }
+
+  /**
+   * Converts the result of a Standard Schema validator.
+   *
+   * @param payload - The validated payload.
+   * @param result - The Standard Schema result.
+   * @returns The validation result, carrying the transformed value if valid.
+   */
+  private fromStandard(
+    payload: any,
+    result: StandardSchemaResult,
+  ): ValidationResult {
+    if (result.issues) {
+      return {value: payload, issues: [...result.issues]}
+    }
+    return {value: (result as {value: unknown}).value, issues: []}
+  }
+
+  /**
+   * Converts the result of a plain validator function.
+   *
+   * @param payload - The validated payload.
+   * @param result - `true`/`false` or the validation issues.
+   * @returns The validation result.
+   */
+  private fromFunction(
+    payload: any,
+    result: boolean | ReadonlyArray<ValidationIssue>,
+  ): ValidationResult {
+    if (typeof result === 'boolean') {
+      return {
+        value: payload,
+        issues: result ? [] : [{message: 'Payload validation failed'}],
+      }
+    }
+    return {value: payload, issues: [...(result ?? [])]}
+  }
+}
@@ -0,0 +1,60 @@
+import assert from 'assert/strict'
+import {AbortError} from '../libs'
+import {describe, it} from 'node:test'
+import {connectClient, tick} from './memory'
+
+describe('Abort Suite', () => {
+  it('should cancel a wait and remove its listener', async () => {
+    const {client} = await connectClient()
+    const controller = new AbortController()
+    const ack = client
+      .publish('chat', 'Hello', {id: 'm1'})
+      .waitForAck(5000, {signal: controller.signal})
+    await tick()
+
+    assert.equal(client.listeners('ack.m1').length, 1)
+    controller.abort('Timeout budget exceeded')
+
+    await assert.rejects(ack, (error: AbortError) => {
+      assert.ok(error instanceof AbortError)
+      assert.equal(error.reason, 'Timeout budget exceeded')
+      assert.equal(error.id, 'm1')
+      return true
+    })
+    assert.equal(client.listeners('ack.m1').length, 0)
+    assert.deepEqual(client.getPendingRequests(), [])
+    client.disconnect()
+  })
+
+  it('should cancel every wait of an aborted message', async () => {
+    const {client} = await connectClient()
+    const controller = new AbortController()
+    const message = client.send('Hello', {id: 'm1', signal: controller.signal})
+    const ack = message.waitForAck(5000)
+    const reply = message.waitForReply(5000)
+    await tick()
+
+    controller.abort()
+
+    await assert.rejects(ack, AbortError)
+    await assert.rejects(reply, AbortError)
+    client.disconnect()
+  })
+
+  it('should not send a message aborted beforehand', async () => {
+    const {client, frames} = await connectClient()
+    const controller = new AbortController()
+    controller.abort()
+
+    await assert.rejects(
+      client
+        .publish('chat', 'Hello', {signal: controller.signal})
+        .waitForAck(5000),
+      AbortError,
+    )
+    await tick()
+
+    assert.deepEqual(frames, [])
+    client.disconnect()
+  })
+})
@@ -0,0 +1,128 @@
+import assert from 'assert/strict'
+import {binaryReplacer} from '../libs/binary'
+import {Reassembler, splitPayload} from '../libs/chunking'
+import {RealtimeError} from '../libs'
+import {describe, it} from 'node:test'
+import {connectClient, tick} from './memory'
+
+describe('Chunking Suite', () => {
+  const payload = {
+    report: 'ünïcode '.repeat(500),
+    bytes: new Uint8Array(2000).fill(42),
+  }
+
+  it('should not split payloads fitting in a single message', () => {
+    assert.equal(splitPayload({small: true}, 1024), null)
+  })
+
+  it('should split and reassemble payloads in any order', () => {
+    const chunks = splitPayload(payload, 1024)
+    const reassembler = new Reassembler({}, () => {})
+
+    assert.ok(chunks.length > 1)
+    assert.ok(chunks.every(({data}) => data.length <= 1024))
+
+    const results = [...chunks]
+      .reverse()
+      .map((chunk) => reassembler.add('c1:m1', chunk, {id: 'm1'}))
+    const last = results[results.length - 1]
+
+    assert.ok(results.slice(0, -1).every(({complete}) => !complete))
+    assert.equal(last.chunks, chunks.length)
+    assert.deepEqual(last.payload, payload)
+  })
+
+  it('should ignore duplicate chunks', () => {
+    const [first, second] = splitPayload(payload, 1024)
+    const reassembler = new Reassembler({}, () => {})
+
+    reassembler.add('c1:m1', first, {id: 'm1'})
+    assert.equal(reassembler.add('c1:m1', first, {id: 'm1'}).chunks, 1)
+    assert.equal(reassembler.add('c1:m1', second, {id: 'm1'}).chunks, 2)
+
+    reassembler.clear()
+  })
+
+  it('should discard messages exceeding the memory cap', () => {
+    const [first] = splitPayload(payload, 1024)
+    const reassembler = new Reassembler({maxPendingBytes: 1024}, () => {})
+
+    assert.throws(
+      () => reassembler.add('c1:m1', first, {id: 'm1'}),
+      RealtimeError,
+    )
+  })
+
+  it('should discard messages whose chunks exceed the payload size', () => {
+    const [first, second] = splitPayload(payload, 1024)
+    const reassembler = new Reassembler({maxPendingBytes: 4096}, () => {})
+    const forged = {...first, size: 1500}
+
+    reassembler.add('c1:m1', forged, {id: 'm1'})
+    assert.throws(
+      () => reassembler.add('c1:m1', {...second, size: 1500}, {id: 'm1'}),
+      /Message chunks exceed the payload size/,
+    )
+    // The claimed size is released with the message
+    reassembler.add('c1:m2', {...first, size: 4096}, {id: 'm2'})
+    reassembler.clear()
+  })
+
+  it('should discard messages not reassembled in time', async () => {
+    const [first] = splitPayload(payload, 1024)
+    const expired = new Promise<RealtimeError>((resolve) => {
+      const reassembler = new Reassembler({reassemblyTimeout: 10}, resolve)
+      reassembler.add('c1:m1', first, {id: 'm1'})
+    })
+
+    assert.equal((await expired).id, 'm1')
+  })
+
+  it('should split payloads containing blobs, in order', async () => {
+    const {client, frames, receive} = await connectClient({
+      chunking: {chunkSize: 1024},
+    })
+    const file = new Blob([new Uint8Array(3000).fill(42)])
+
+    const acked = client.publish('files', file, {id: 'm1'}).waitForAck(1000)
+    client.publish('files', 'Uploaded', {id: 'm2'})
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    const ids = frames.map(({data}) => data.id)
+    const chunks = ids.filter((id) => id === 'm1').length
+    assert.ok(chunks > 1)
+    assert.deepEqual(ids, [...Array(chunks).fill('m1'), 'm2'])
+
+    let settled = false
+    acked.then(() => (settled = true))
+    for (let i = 0; i < chunks; i++) {
+      assert.equal(settled, false)
+      receive('priv/acks', 'ack', {data: 'm1'})
+      await tick()
+    }
+    await acked
+    client.disconnect()
+  })
+
+  it('should discard expired messages without an error listener', async () => {
+    const {client, peer} = await connectClient({
+      chunking: {reassemblyTimeout: 10},
+    })
+    const [first] = splitPayload(payload, 1024)
+
+    peer.send(
+      JSON.stringify(
+        {
+          topic: 'files',
+          messageType: 'upload',
+          data: {id: 'm1', client: {connectionId: 'c2'}, payload: first},
+        },
+        binaryReplacer,
+      ),
+    )
+    await new Promise((resolve) => setTimeout(resolve, 30))
+
+    assert.equal(client.state, 'open')
+    client.disconnect()
+  })
+})
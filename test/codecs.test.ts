@@ -0,0 +1,108 @@
+import assert from 'assert/strict'
+import {jsonCodec, msgpackCodec, OutboundFrame} from '../libs'
+import {describe, it} from 'node:test'
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+  bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength,
+  ) as ArrayBuffer
+
+describe('Codecs Suite', () => {
+  const frame: OutboundFrame = {
+    type: 'publish',
+    data: {
+      topic: 'telemetry',
+      messageType: 'sample',
+      payload: {
+        device: 'sensor-1',
+        readings: [0, 1, 127, 128, 255, 65536, -1, -33, -129, -40000, 2 ** 40],
+        temperature: 21.5,
+        online: true,
+        error: null,
+        label: 'x'.repeat(300),
+        unicode: 'héllo wörld ✓',
+      },
+      id: 'abc123',
+    },
+  }
+
+  it('should round trip frames with the JSON codec', () => {
+    const encoded = jsonCodec.encode(frame)
+
+    assert.equal(typeof encoded, 'string')
+    assert.deepEqual(jsonCodec.decode(encoded as string), frame)
+    assert.deepEqual(
+      jsonCodec.decode(
+        toArrayBuffer(new TextEncoder().encode(encoded as string)),
+      ),
+      frame,
+    )
+  })
+
+  it('should round trip frames with the MessagePack codec', () => {
+    const encoded = msgpackCodec.encode(frame) as Uint8Array
+
+    assert.ok(encoded instanceof Uint8Array)
+    assert.ok(encoded.byteLength < JSON.stringify(frame).length)
+    assert.deepEqual(msgpackCodec.decode(toArrayBuffer(encoded)), frame)
+  })
+
+  it('should encode MessagePack values with JSON semantics', () => {
+    const date = new Date('2024-01-01T00:00:00.000Z')
+    const encoded = msgpackCodec.encode({
+      type: 'message',
+      data: {date, skipped: undefined, bytes: new Uint8Array([1, 2, 3])},
+    }) as Uint8Array
+
+    assert.deepEqual(msgpackCodec.decode(toArrayBuffer(encoded)), {
+      type: 'message',
+      data: {date: date.toISOString(), bytes: new Uint8Array([1, 2, 3])},
+    })
+  })
+
+  it('should decode text frames as JSON with the MessagePack codec', () => {
+    assert.deepEqual(msgpackCodec.decode('{"topic":"main"}'), {topic: 'main'})
+  })
+
+  it('should round trip binary values with every codec', () => {
+    const binary: OutboundFrame = {
+      type: 'publish',
+      data: {
+        topic: 'thumbnails',
+        payload: {
+          bytes: new Uint8Array([0, 1, 254, 255]),
+          buffer: new Uint8Array([1, 2, 3]).buffer,
+          view: new Uint8Array([9, 8, 7, 6]).subarray(1, 3),
+        },
+      },
+    }
+    const expected = {
+      type: 'publish',
+      data: {
+        topic: 'thumbnails',
+        payload: {
+          bytes: new Uint8Array([0, 1, 254, 255]),
+          buffer: new Uint8Array([1, 2, 3]),
+          view: new Uint8Array([8, 7]),
+        },
+      },
+    }
+
+    const text = jsonCodec.encode(binary) as string
+    assert.ok(text.includes('"contentType":"application/octet-stream"'))
+    assert.deepEqual(jsonCodec.decode(text), expected)
+
+    const encoded = msgpackCodec.encode(binary) as Uint8Array
+    assert.deepEqual(msgpackCodec.decode(toArrayBuffer(encoded)), expected)
+  })
+
+  it('should reject truncated MessagePack data', () => {
+    const encoded = msgpackCodec.encode(frame) as Uint8Array
+
+    assert.throws(
+      () => msgpackCodec.decode(toArrayBuffer(encoded.subarray(0, 10))),
+      RangeError,
+    )
+  })
+})
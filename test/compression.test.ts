@@ -0,0 +1,135 @@
+import assert from 'assert/strict'
+import {
+  compress,
+  decompress,
+  detectCompression,
+  utf8Length,
+} from '../libs/compression'
+import {IncomingMessage} from '../libs'
+import {describe, it} from 'node:test'
+import {connectClient, tick} from './memory'
+
+describe('Compression Suite', () => {
+  const text = JSON.stringify({payload: 'héllo wörld ✓ '.repeat(100)})
+  const bytes = new TextEncoder().encode(text)
+
+  it('should round trip data in every format', async () => {
+    for (const format of ['gzip', 'deflate'] as const) {
+      const compressed = await compress(bytes, format)
+
+      assert.ok(compressed.byteLength < bytes.byteLength)
+      assert.equal(detectCompression(new Uint8Array(compressed)), format)
+      assert.equal(
+        new TextDecoder().decode(await decompress(compressed, format)),
+        text,
+      )
+    }
+  })
+
+  it('should not detect uncompressed data as compressed', () => {
+    assert.equal(detectCompression(bytes), null)
+    assert.equal(detectCompression(new Uint8Array([0x82, 0xa5])), null)
+    assert.equal(detectCompression(new Uint8Array([0x1f])), null)
+  })
+
+  it('should compute the UTF-8 size of strings', () => {
+    for (const value of ['', 'abc', 'héllo', '✓', '😀 emoji', text]) {
+      assert.equal(utf8Length(value), new TextEncoder().encode(value).length)
+    }
+  })
+
+  /**
+   * Deserializes a protobuf-like binary format, whose frames start with `0x08`, and JSON binary frames.
+   */
+  const messageDeserializer = (data: ArrayBuffer | string) => {
+    if (typeof data === 'string') {
+      return JSON.parse(data)
+    }
+
+    const bytes = new Uint8Array(data)
+    if (bytes[0] === 0x08) {
+      return {topic: 'proto', messageType: 'raw', data: {payload: [...bytes]}}
+    } else if (bytes[0] === 0x7b) {
+      return JSON.parse(new TextDecoder().decode(bytes))
+    }
+    throw new Error('Unknown format')
+  }
+
+  const receiveMessages = async (
+    options: Parameters<typeof connectClient>[0],
+    frames: ArrayBuffer[],
+  ) => {
+    const {client, peer} = await connectClient(options)
+    const messages: IncomingMessage[] = []
+    const errors: Error[] = []
+    for (const event of ['chat.text', 'proto.raw']) {
+      client.on(event, (message: IncomingMessage) => messages.push(message))
+    }
+    client.on('error', (error) => errors.push(error))
+
+    frames.forEach((frame) => peer.send(frame))
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    client.disconnect()
+
+    return {messages, errors}
+  }
+
+  it('should compress outbound frames above the threshold', async () => {
+    for (const format of ['gzip', 'deflate'] as const) {
+      const {client, peer} = await connectClient({
+        compression: {threshold: 256, format},
+      })
+      const frames: (string | ArrayBuffer)[] = []
+      peer.onmessage = ({data}) => frames.push(data)
+
+      const large = 'héllo wörld ✓ '.repeat(100)
+      client.publish('chat', large, {id: 'm1'})
+      client.publish('chat', 'Hi', {id: 'm2'})
+      await new Promise((resolve) => setTimeout(resolve, 20))
+
+      const [compressed, text] = frames
+      assert.ok(compressed instanceof ArrayBuffer)
+      assert.equal(detectCompression(new Uint8Array(compressed)), format)
+      const frame = JSON.parse(
+        new TextDecoder().decode(await decompress(compressed, format)),
+      )
+      assert.deepEqual(frame.data, {topic: 'chat', payload: large, id: 'm1'})
+      assert.equal(typeof text, 'string')
+      assert.equal(JSON.parse(text as string).data.id, 'm2')
+      client.disconnect()
+    }
+  })
+
+  it('should decompress inbound frames decoded by the built-in codecs', async () => {
+    const frame = JSON.stringify({topic: 'chat', messageType: 'text', data: {}})
+    const {messages} = await receiveMessages({}, [
+      await compress(new TextEncoder().encode(frame), 'gzip'),
+    ])
+
+    assert.equal(messages.length, 1)
+    assert.equal(messages[0].compression, true)
+    assert.equal(messages[0].rawSize, frame.length)
+  })
+
+  it('should let custom deserializers decode frames looking compressed', async () => {
+    // Passes the zlib header check, like about 1 in 31 frames starting with 0x08
+    const proto = new Uint8Array([0x08, 0x1d, 0x10, 0x01])
+    assert.equal(detectCompression(proto), 'deflate')
+
+    const json = JSON.stringify({topic: 'chat', messageType: 'text', data: {}})
+    const {messages, errors} = await receiveMessages(
+      {websocketOptions: {urlProvider: async () => '', messageDeserializer}},
+      [proto.buffer, await compress(new TextEncoder().encode(json), 'gzip')],
+    )
+
+    assert.deepEqual(errors, [])
+    assert.deepEqual(
+      messages.map(({topic, compression}) => [topic, compression]),
+      [
+        ['proto', false],
+        ['chat', true],
+      ],
+    )
+    assert.deepEqual(messages[0].data.payload, [0x08, 0x1d, 0x10, 0x01])
+  })
+})
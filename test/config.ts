@@ -14,11 +14,4 @@ const getAuthToken = (
   })
 }
 
-const config = {
-  APP_ID: process.env.APP_ID,
-  WEBSOCKET_CLIENTS_SIGNING_KEY: process.env.WEBSOCKET_CLIENTS_SIGNING_KEY,
-  ALGORITHM: process.env.ALGORITHM,
-  CLUSTER_HOSTNAME: 'genesis.r7.21no.de',
-}
-
-export {getAuthToken, config}
+export {getAuthToken}
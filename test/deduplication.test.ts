@@ -0,0 +1,104 @@
+import assert from 'assert/strict'
+import {Deduplicator} from '../libs/deduplication'
+import {DuplicateMessageEvent, IncomingMessage, ResponseMessage} from '../libs'
+import {describe, it} from 'node:test'
+import {connectClient, tick} from './memory'
+
+describe('Deduplication Suite', () => {
+  it('should detect duplicates by topic and key', () => {
+    const deduplicator = new Deduplicator()
+
+    assert.equal(deduplicator.isDuplicate('orders', 'm1'), false)
+    assert.equal(deduplicator.isDuplicate('orders', 'm1'), true)
+    assert.equal(deduplicator.isDuplicate('orders', 'm2'), false)
+    assert.equal(deduplicator.isDuplicate('invoices', 'm1'), false)
+  })
+
+  it('should forget keys once their time-to-live expires', async () => {
+    const deduplicator = new Deduplicator({ttl: 10, topics: {slow: 1000}})
+
+    deduplicator.isDuplicate('orders', 'm1')
+    deduplicator.isDuplicate('slow', 'm1')
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    assert.equal(deduplicator.isDuplicate('orders', 'm1'), false)
+    assert.equal(deduplicator.isDuplicate('slow', 'm1'), true)
+  })
+
+  it('should skip topics with deduplication disabled', () => {
+    const deduplicator = new Deduplicator({topics: {telemetry: false}})
+
+    deduplicator.isDuplicate('telemetry', 'm1')
+    assert.equal(deduplicator.isDuplicate('telemetry', 'm1'), false)
+    assert.equal(deduplicator.size, 0)
+  })
+
+  it('should evict the least recently seen keys first', () => {
+    const deduplicator = new Deduplicator({maxSize: 2})
+
+    deduplicator.isDuplicate('orders', 'm1')
+    deduplicator.isDuplicate('orders', 'm2')
+    // Seeing m1 again makes m2 the least recently seen key
+    deduplicator.isDuplicate('orders', 'm1')
+    deduplicator.isDuplicate('orders', 'm3')
+
+    assert.equal(deduplicator.size, 2)
+    assert.equal(deduplicator.isDuplicate('orders', 'm1'), true)
+    assert.equal(deduplicator.isDuplicate('orders', 'm2'), false)
+  })
+
+  it('should suppress repeated incoming messages', async () => {
+    const {client, receive} = await connectClient({deduplication: {}})
+    const received: string[] = []
+    const duplicates: DuplicateMessageEvent[] = []
+    client.on('chat.text', (message: IncomingMessage) =>
+      received.push(message.data.payload),
+    )
+    client.on('message.duplicate', (event) => duplicates.push(event))
+
+    receive('chat', 'text', {id: 'm1', payload: 'one'})
+    receive('chat', 'text', {id: 'm1', payload: 'one'})
+    receive('chat', 'text', {id: 'm2', payload: 'two'})
+    receive('chat', 'text', {id: 'm1', payload: 'one'})
+    await tick()
+
+    assert.deepEqual(received, ['one', 'two'])
+    assert.deepEqual(
+      duplicates.map(({message, count}) => [message.data.id, count]),
+      [
+        ['m1', 1],
+        ['m1', 2],
+      ],
+    )
+    client.disconnect()
+  })
+
+  it('should suppress repeated replies of the same responder', async () => {
+    const {client, receive} = await connectClient({deduplication: {}})
+    const replies: ResponseMessage[] = []
+    const duplicates: DuplicateMessageEvent[] = []
+    client.on('response.r1', (response: ResponseMessage) =>
+      replies.push(response),
+    )
+    client.on('message.duplicate', (event) => duplicates.push(event))
+
+    const reply = (connectionId: string, seq: number) =>
+      receive('priv/c1', 'response', {
+        client: {connectionId},
+        payload: {id: 'r1', status: 'ok', data: seq, seq},
+      })
+    reply('c2', 0)
+    reply('c2', 0)
+    reply('c2', 1)
+    reply('c3', 0)
+    await tick()
+
+    assert.deepEqual(
+      replies.map(({data}) => data),
+      [0, 1, 0],
+    )
+    assert.equal(duplicates.length, 1)
+    assert.equal(duplicates[0].count, 1)
+    client.disconnect()
+  })
+})
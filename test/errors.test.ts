@@ -0,0 +1,88 @@
+import assert from 'assert/strict'
+import {
+  DeserializationError,
+  RealtimeError,
+  RemoteError,
+  ReplyTimeoutError,
+  TimeoutError,
+} from '../libs'
+import {describe, it} from 'node:test'
+import {connectClient, MemoryClient} from './memory'
+
+describe('Errors Suite', () => {
+  /**
+   * Sends an error reply to message `m1`, as a responder would through the gateway.
+   */
+  const respond = ({receive}: MemoryClient) =>
+    receive('priv/c1', 'response', {
+      client: {connectionId: 'r1'},
+      payload: {id: 'm1', status: 'error', data: {message: 'Unknown zone'}},
+    })
+
+  it('should resolve with error replies by default', async () => {
+    const memory = await connectClient()
+    const reply = memory.client
+      .publish('clock', 'Mars', {id: 'm1', messageType: 'gettime'})
+      .waitForReply(1000)
+
+    respond(memory)
+    const [response, message] = await reply
+
+    assert.equal(response.status, 'error')
+    assert.equal(message.data.client.connectionId, 'r1')
+    memory.client.disconnect()
+  })
+
+  it('should reject error replies with rejectOnError', async () => {
+    const memory = await connectClient()
+    const reply = memory.client
+      .publish('clock', 'Mars', {id: 'm1', messageType: 'gettime'})
+      .waitForReply(1000, {rejectOnError: true})
+
+    respond(memory)
+
+    await assert.rejects(reply, (error: RemoteError) => {
+      assert.ok(error instanceof RemoteError)
+      assert.ok(error instanceof RealtimeError)
+      assert.equal(error.status, 'error')
+      assert.deepEqual(error.data, {message: 'Unknown zone'})
+      assert.deepEqual(
+        [error.id, error.topic, error.messageType],
+        ['m1', 'clock', 'gettime'],
+      )
+      return true
+    })
+    memory.client.disconnect()
+  })
+
+  it('should reject replies not received in time', async () => {
+    const {client} = await connectClient()
+
+    await assert.rejects(
+      client.publish('clock', 'UTC', {id: 'm1'}).waitForReply(10),
+      (error: ReplyTimeoutError) => {
+        assert.ok(error instanceof ReplyTimeoutError)
+        assert.ok(error instanceof TimeoutError)
+        assert.equal(error.timeout, 10)
+        return true
+      },
+    )
+    client.disconnect()
+  })
+
+  it('should emit malformed frames as deserialization errors', async () => {
+    const {client, peer} = await connectClient()
+    const errors: Error[] = []
+    client.on('error', (error) => errors.push(error))
+
+    peer.send('{"topic": "chat"')
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    assert.equal(errors.length, 1)
+    assert.ok(errors[0] instanceof DeserializationError)
+    assert.equal((errors[0] as DeserializationError).data, '{"topic": "chat"')
+    assert.ok((errors[0] as DeserializationError).cause instanceof SyntaxError)
+    assert.equal(client.state, 'open')
+    client.disconnect()
+  })
+})
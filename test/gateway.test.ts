@@ -0,0 +1,369 @@
+import assert from 'assert/strict'
+import {WebSocket} from 'ws'
+import {
+  AckTimeoutError,
+  ClientOptions,
+  ConnectionClosedError,
+  ConnectionInfo,
+  ConnectTimeoutError,
+  DeliveryError,
+  DeliveryFailedEvent,
+  IncomingMessage,
+  RealtimeClient,
+  ReplyFunction,
+  StateChangeEvent,
+} from '../libs'
+import {after, before, describe, it} from 'node:test'
+import {getAuthToken} from './config'
+import {GatewayConnection, MockGateway} from './gateway'
+
+describe('Mock Gateway Suite', () => {
+  let gateway: MockGateway
+  const clients: RealtimeClient[] = []
+
+  const createClient = (
+    permissions?: string[],
+    maxRetries = 10,
+    urlProvider = async () =>
+      gateway.url(
+        permissions && getAuthToken('secret', 5, {permissions}, 'HS256'),
+      ),
+    options: Partial<ClientOptions> = {},
+  ) => {
+    const client = new RealtimeClient({
+      ...options,
+      websocketOptions: {
+        WebSocket,
+        maxRetries,
+        minReconnectionDelay: 10,
+        maxReconnectionDelay: 10,
+        urlProvider,
+      },
+    })
+    client.on('error', () => {})
+    clients.push(client)
+
+    return client
+  }
+
+  before(async () => {
+    gateway = await MockGateway.start()
+  })
+
+  after(async () => {
+    for (const client of clients) {
+      client.disconnect()
+    }
+    await gateway.close()
+  })
+
+  it('should start a session', async () => {
+    const client = createClient()
+    const connection: ConnectionInfo = await client.connect(1000)
+
+    assert.equal(connection.appId, 'test')
+    assert.ok(gateway.connections.has(connection.id))
+  })
+
+  it('should fan published messages out to subscribers', async () => {
+    const subscriber = createClient()
+    const publisher = createClient()
+    subscriber.subscribeRemoteTopic('chat')
+    await Promise.all([subscriber.connect(1000), publisher.connect(1000)])
+    await gateway.subscription('chat')
+
+    const received = subscriber.waitFor('chat.text-message', 1000)
+    await publisher
+      .publish('chat', 'Hello', {messageType: 'text-message'})
+      .waitForAck(1000)
+    const [message] = (await received) as [IncomingMessage]
+
+    assert.equal(message.data.payload, 'Hello')
+    assert.ok(gateway.connections.has(message.data.client.connectionId))
+  })
+
+  it('should route inbound messages and replies', async () => {
+    const server = createClient()
+    const client = createClient()
+    server.subscribeRemoteTopic('secure/inbound')
+    server.on(
+      'secure/inbound.gettime',
+      (message: IncomingMessage, reply: ReplyFunction) =>
+        reply({time: message.data.payload.now}, 'ok'),
+    )
+    await Promise.all([server.connect(1000), client.connect(1000)])
+    await gateway.subscription('secure/inbound')
+
+    const [response] = await client
+      .send({now: 42}, {messageType: 'gettime', compress: true})
+      .waitForReply(1000)
+
+    assert.deepEqual(response.data, {time: 42})
+  })
+
+  it('should notify presence on the inbound topic', async () => {
+    const server = createClient()
+    server.subscribeRemoteTopic('secure/inbound')
+    const {id} = await server.connect(1000)
+    await gateway.subscription(
+      'secure/inbound',
+      (connection) => connection.id === id,
+    )
+
+    const presence = server.waitFor('secure/inbound.presence', 1000)
+    const connection = await createClient().connect(1000)
+    const [message] = (await presence) as [IncomingMessage]
+
+    assert.equal(message.data.client.connectionId, connection.id)
+    assert.deepEqual(message.data.payload, {status: 'connected'})
+  })
+
+  it('should close connections subscribing to forbidden topics', async () => {
+    const client = createClient([], 0)
+    await client.connect(1000)
+
+    const closed = client.waitFor('close', 1000)
+    client.subscribeRemoteTopic('secure/tasks')
+    const [event] = (await closed) as [CloseEvent]
+
+    assert.equal(event.reason, 'Subscription to secure topic is forbidden!')
+  })
+
+  it('should keep connecting until the gateway is reachable', async () => {
+    const unreachable = await MockGateway.start()
+    const url = unreachable.url()
+    const {port} = new URL(url)
+    await unreachable.close()
+    const client = createClient(undefined, 50, async () => url)
+
+    const connected = client.connect(2000)
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    const reachable = await MockGateway.start({port: Number(port)})
+    try {
+      const connection = await connected
+
+      assert.ok(reachable.connections.has(connection.id))
+    } finally {
+      client.disconnect()
+      await reachable.close()
+    }
+  })
+
+  it('should fail connecting once the retries are exhausted', async () => {
+    const unreachable = await MockGateway.start()
+    const url = unreachable.url()
+    await unreachable.close()
+    const client = createClient(undefined, 2, async () => url)
+
+    const states: StateChangeEvent[] = []
+    client.on('state.changed', (event) => states.push(event))
+
+    await assert.rejects(client.connect(2000), ConnectionClosedError)
+    assert.deepEqual(
+      states.map(({next, attempt}) => [next, attempt]),
+      [
+        ['connecting', 0],
+        ['reconnecting', 1],
+        ['reconnecting', 2],
+        ['closing', 2],
+        ['closed', 2],
+      ],
+    )
+  })
+
+  it('should stop connecting at the connect timeout', async () => {
+    const unreachable = await MockGateway.start()
+    const url = unreachable.url()
+    await unreachable.close()
+    const client = createClient(undefined, 50, async () => url)
+
+    await assert.rejects(client.connect(100), ConnectTimeoutError)
+    assert.equal(client.state, 'closed')
+  })
+
+  it('should fail connecting right away when refused by the gateway', async () => {
+    const client = createClient(undefined, 50, async () =>
+      gateway.url('not.eA.json'),
+    )
+
+    await assert.rejects(
+      client.connect(2000),
+      (error: ConnectionClosedError) => {
+        assert.equal(error.code, 1008)
+        return true
+      },
+    )
+    assert.equal(client.state, 'closed')
+  })
+
+  it('should notify state transitions', async () => {
+    const client = createClient()
+    const states: StateChangeEvent[] = []
+    client.on('state.changed', (event) => states.push(event))
+    const {id} = await client.connect(1000)
+
+    const restarted = client.waitFor('session.started', 1000)
+    gateway.disconnect(id)
+    await restarted
+    client.disconnect()
+
+    assert.deepEqual(
+      states.map(({previous, next, closeCode}) => [previous, next, closeCode]),
+      [
+        ['idle', 'connecting', undefined],
+        ['connecting', 'open', undefined],
+        ['open', 'reconnecting', 1012],
+        ['reconnecting', 'open', 1012],
+        ['open', 'closing', 1012],
+        ['closing', 'closed', 1012],
+      ],
+    )
+  })
+
+  it('should restore subscriptions after a forced disconnect', async () => {
+    const subscriber = createClient()
+    subscriber.subscribeRemoteTopic('clock')
+    const {id} = await subscriber.connect(1000)
+
+    gateway.disconnect(id)
+    await gateway.subscription('clock', (connection) => connection.id !== id)
+
+    const tick = subscriber.waitFor('clock.tick', 1000)
+    gateway.publish('clock', 'tick', 1)
+    const [message] = (await tick) as [IncomingMessage]
+
+    assert.equal(message.data.payload, 1)
+  })
+
+  it('should renew sessions before their token expires', async () => {
+    const client = new RealtimeClient({
+      websocketOptions: {
+        WebSocket,
+        urlProvider: async () =>
+          gateway.url(getAuthToken('secret', 2, {}, 'HS256')),
+      },
+      tokenRefresh: {margin: 1000, overlap: 50},
+    })
+    client.on('error', () => {})
+    clients.push(client)
+    const events: string[] = []
+    client.on('close', () => events.push('close'))
+    client.on('state.changed', ({next}: StateChangeEvent) => events.push(next))
+
+    client.subscribeRemoteTopic('clock')
+    const {id} = await client.connect(1000)
+    events.length = 0
+    const renewed = await new Promise<ConnectionInfo>((resolve) =>
+      client.once('session.started', resolve),
+    )
+    assert.notEqual(renewed.id, id)
+    await gateway.subscription(
+      'clock',
+      (connection) => connection.id === renewed.id,
+    )
+
+    // The previous connection is closed by the client after the overlap, before its token expires
+    const retired = await new Promise<GatewayConnection>((resolve) =>
+      gateway.once('disconnection', resolve),
+    )
+    assert.equal(retired.id, id)
+    assert.equal(client.state, 'open')
+
+    const tick = client.waitFor('clock.tick', 1000)
+    gateway.publish('clock', 'tick', 1)
+    const [message] = (await tick) as [IncomingMessage]
+    assert.equal(message.data.payload, 1)
+    assert.deepEqual(events, [])
+  })
+
+  it('should keep waits pending across reconnects if enabled', async () => {
+    for (const keepOnReconnect of [true, false]) {
+      const client = createClient(undefined, 10, undefined, {
+        pendingRequests: {keepOnReconnect},
+      })
+      const {id} = await client.connect(1000)
+      const message = client.send('Hello', {id: `m-${keepOnReconnect}`})
+      await message.waitForAck(1000)
+      const reply = message.waitForReply(2000)
+      const rejected = keepOnReconnect
+        ? null
+        : assert.rejects(reply, ConnectionClosedError)
+
+      const restarted = new Promise<ConnectionInfo>((resolve) =>
+        client.once('session.started', resolve),
+      )
+      gateway.disconnect(id)
+      const connection = await restarted
+
+      if (rejected) {
+        await rejected
+      } else {
+        gateway.publish(`priv/${connection.id}`, 'response', {
+          id: `m-${keepOnReconnect}`,
+          status: 'ok',
+          data: 42,
+        })
+        const [response] = await reply
+        assert.equal(response.data, 42)
+      }
+      client.disconnect()
+    }
+  })
+
+  it('should retry deliveries dropped by the gateway', async () => {
+    const client = createClient()
+    await client.connect(1000)
+
+    let drops = 1
+    gateway.faults.drop = (frame, direction) =>
+      direction === 'inbound' && 'type' in frame && drops-- > 0
+    try {
+      const report = await client
+        .publish('chat', 'Hello', {
+          delivery: {timeout: 100, backoff: 10, jitter: 0},
+        })
+        .waitForDelivery()
+
+      assert.equal(report.attempts, 2)
+    } finally {
+      gateway.faults = {}
+    }
+  })
+
+  it('should fail deliveries once the retries are exhausted', async () => {
+    const client = createClient()
+    await client.connect(1000)
+    const failed: DeliveryFailedEvent[] = []
+    client.on('delivery.failed', (event) => failed.push(event))
+
+    let attempts = 0
+    gateway.faults.drop = (frame, direction) => {
+      if (direction === 'inbound' && 'type' in frame) {
+        attempts++
+        return true
+      }
+      return false
+    }
+    try {
+      const delivery = client
+        .publish('chat', 'Hello', {
+          id: 'm1',
+          delivery: {retries: 2, timeout: 50, backoff: 10, jitter: 0},
+        })
+        .waitForDelivery()
+
+      await assert.rejects(delivery, (error: DeliveryError) => {
+        assert.ok(error instanceof DeliveryError)
+        assert.equal(error.attempts, 3)
+        assert.ok(error.cause instanceof AckTimeoutError)
+        return true
+      })
+      assert.equal(attempts, 3)
+      assert.equal(failed.length, 1)
+      assert.equal(failed[0].frame.data.id, 'm1')
+      assert.equal(failed[0].error.attempts, 3)
+    } finally {
+      gateway.faults = {}
+    }
+  })
+})
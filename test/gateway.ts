@@ -0,0 +1,464 @@
+import {EventEmitter} from 'events'
+import {AddressInfo} from 'net'
+import {gunzipSync, gzipSync, inflateSync} from 'zlib'
+import {WebSocket, WebSocketServer} from 'ws'
+import {detectCompression} from '../libs/compression'
+import {Permissions} from '../libs/permissions'
+import {decodeClaims} from '../libs/token'
+
+/**
+ * Frame sent by a client to the gateway, e.g. `{type: 'publish', data: {topic, payload, id}}`.
+ */
+export interface ClientFrame {
+  type: 'subscribe' | 'unsubscribe' | 'publish' | 'message' | string
+  data: Record<string, any>
+}
+
+/**
+ * Frame sent by the gateway to a client.
+ */
+export interface GatewayFrame {
+  topic: string
+  messageType: string
+  data: Record<string, any>
+}
+
+/**
+ * Client connection, as seen by the gateway.
+ */
+export interface GatewayConnection {
+  id: string
+  socket: WebSocket
+  permissions: Permissions
+  subscriptions: Set<string>
+  claims: Record<string, any> | null
+}
+
+/**
+ * Faults injected by the gateway, to exercise the retry and reconnect paths of the client.
+ */
+export interface GatewayFaults {
+  /**
+   * Drops a frame received from (`'inbound'`) or sent to (`'outbound'`) a client when returning `true`.
+   * Dropped inbound frames are neither routed nor acknowledged.
+   */
+  drop?: (
+    frame: ClientFrame | GatewayFrame,
+    direction: 'inbound' | 'outbound',
+    connection: GatewayConnection,
+  ) => boolean
+
+  /**
+   * Delay in milliseconds applied to every frame sent to a client.
+   */
+  delay?: number
+}
+
+/**
+ * Mock gateway options.
+ */
+export interface MockGatewayOptions {
+  /**
+   * Port to listen on. Defaults to `0`, a random free port.
+   */
+  port?: number
+
+  /**
+   * Application identifier reported in the welcome message. Defaults to `'test'`.
+   */
+  appId?: string
+
+  /**
+   * Topic inbound messages and presence events are routed to. Defaults to `'secure/inbound'`.
+   */
+  inboundTopic?: string
+
+  /**
+   * Permissions of the connections without an access token. Default to publishing and subscribing to every topic.
+   */
+  permissions?: string[]
+}
+
+/**
+ * In-process emulator of the Messaging Gateway, for testing clients offline.
+ *
+ * Speaks the JSON protocol of the gateway: welcomes connections, manages subscriptions, fans published messages
+ * out to subscribers, routes `priv/<connectionId>` topics, acknowledges messages carrying an id, routes inbound
+ * messages and presence events to the inbound topic, and closes connections using forbidden topics or whose
+ * access token expired. Access tokens are decoded, not verified.
+ *
+ * Emits `'connection'`, `'disconnection'`, `'subscription'` and `'frame'` (every frame received) events.
+ *
+ * @example
+ * ```typescript
+ * const gateway = await MockGateway.start()
+ * const client = new RealtimeClient({
+ *   websocketOptions: {WebSocket, urlProvider: async () => gateway.url()},
+ * })
+ * ```
+ */
+export class MockGateway extends EventEmitter {
+  readonly connections: Map<string, GatewayConnection> = new Map()
+  faults: GatewayFaults = {}
+  private server: WebSocketServer
+  private appId: string
+  private inboundTopic: string
+  private permissions: string[]
+
+  /**
+   * Initializes a new instance of the `MockGateway` class. Use `MockGateway.start()` instead.
+   *
+   * @param server - The listening WebSocket server.
+   * @param options - The gateway options.
+   */
+  private constructor(server: WebSocketServer, options: MockGatewayOptions) {
+    super()
+    this.server = server
+    this.appId = options.appId ?? 'test'
+    this.inboundTopic = options.inboundTopic ?? 'secure/inbound'
+    this.permissions = options.permissions ?? [
+      'realtime:publisher:write:topic:*',
+      'realtime:subscriber:read:topic:*',
+    ]
+    server.on('connection', (socket, request) =>
+      this.accept(socket, request.url, request.socket.remoteAddress),
+    )
+  }
+
+  /**
+   * Starts a gateway.
+   *
+   * @param options - The gateway options.
+   * @returns A promise that resolves with the gateway once it is listening.
+   */
+  static start(options: MockGatewayOptions = {}): Promise<MockGateway> {
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({
+        host: '127.0.0.1',
+        port: options.port ?? 0,
+      })
+      server.once('error', reject)
+      server.once('listening', () => resolve(new MockGateway(server, options)))
+    })
+  }
+
+  /**
+   * Builds the WebSocket URL of the gateway.
+   *
+   * @param accessToken - Optional access token, whose `permissions` and `exp` claims are enforced.
+   * @returns The WebSocket URL.
+   */
+  url(accessToken?: string): string {
+    const {port} = this.server.address() as AddressInfo
+    const query = accessToken ? `?access_token=${accessToken}` : ''
+
+    return `ws://127.0.0.1:${port}/apps/${this.appId}${query}`
+  }
+
+  /**
+   * Publishes a message to the subscribers of a topic, as a backend service would.
+   *
+   * @param topic - The topic.
+   * @param messageType - The message type.
+   * @param payload - The message payload.
+   */
+  publish(topic: string, messageType: string, payload: unknown): void {
+    this.route({topic, messageType, data: {payload}})
+  }
+
+  /**
+   * Waits until a client is subscribed to a topic, since subscriptions are sent without acknowledgement.
+   *
+   * @param topic - The topic.
+   * @param filter - Optional filter of the subscribed connection.
+   * @returns A promise that resolves with the subscribed connection.
+   */
+  subscription(
+    topic: string,
+    filter: (connection: GatewayConnection) => boolean = () => true,
+  ): Promise<GatewayConnection> {
+    const subscribed = [...this.connections.values()].find(
+      (connection) => connection.subscriptions.has(topic) && filter(connection),
+    )
+    if (subscribed) {
+      return Promise.resolve(subscribed)
+    }
+
+    return new Promise((resolve) => {
+      const listener = (
+        subscription: string,
+        connection: GatewayConnection,
+      ) => {
+        if (subscription === topic && filter(connection)) {
+          this.off('subscription', listener)
+          resolve(connection)
+        }
+      }
+      this.on('subscription', listener)
+    })
+  }
+
+  /**
+   * Closes client connections gracefully, e.g. to test reconnects.
+   *
+   * @param connectionId - The connection to close. Defaults to every connection.
+   * @param code - The close code. Defaults to `1012` (service restart).
+   * @param reason - The close reason.
+   */
+  disconnect(
+    connectionId?: string,
+    code: number = 1012,
+    reason: string = 'Service restart',
+  ): void {
+    for (const connection of this.select(connectionId)) {
+      connection.socket.close(code, reason)
+    }
+  }
+
+  /**
+   * Drops client connections abruptly, without a closing handshake, e.g. to test abnormal closures (code `1006`).
+   *
+   * @param connectionId - The connection to drop. Defaults to every connection.
+   */
+  terminate(connectionId?: string): void {
+    for (const connection of this.select(connectionId)) {
+      connection.socket.terminate()
+    }
+  }
+
+  /**
+   * Drops every connection and stops listening.
+   *
+   * @returns A promise that resolves once the gateway is stopped.
+   */
+  close(): Promise<void> {
+    this.terminate()
+
+    return new Promise((resolve) => this.server.close(() => resolve()))
+  }
+
+  /**
+   * Welcomes a new connection, and closes it once its access token expires.
+   *
+   * @param socket - The connection socket.
+   * @param url - The requested URL.
+   * @param remoteAddress - The address of the client.
+   */
+  private accept(socket: WebSocket, url: string, remoteAddress: string): void {
+    let claims: Record<string, any> | null
+    try {
+      claims = decodeClaims(
+        new URL(url, 'ws://localhost').searchParams.get('access_token'),
+      )
+    } catch {
+      socket.close(1008, 'Invalid access token')
+      return
+    }
+
+    const connection: GatewayConnection = {
+      id: Math.random().toString(36).substring(2),
+      socket,
+      permissions: new Permissions(claims?.permissions ?? this.permissions),
+      subscriptions: new Set(),
+      claims,
+    }
+    this.connections.set(connection.id, connection)
+
+    const expiry =
+      typeof claims?.exp === 'number'
+        ? setTimeout(
+            () => socket.close(1008, 'Access token expired'),
+            claims.exp * 1000 - Date.now(),
+          )
+        : undefined
+
+    socket.on('message', (data, isBinary) =>
+      this.receive(connection, data as Buffer, isBinary),
+    )
+    socket.on('close', () => {
+      clearTimeout(expiry)
+      this.connections.delete(connection.id)
+      this.presence(connection, 'disconnected')
+      this.emit('disconnection', connection)
+    })
+
+    this.send(connection, {
+      topic: 'main',
+      messageType: 'welcome',
+      data: {connection: {id: connection.id, appId: this.appId, remoteAddress}},
+    })
+    this.presence(connection, 'connected')
+    this.emit('connection', connection)
+  }
+
+  /**
+   * Decodes and handles a frame received from a client.
+   *
+   * @param connection - The sender.
+   * @param data - The frame data.
+   * @param isBinary - Whether the frame is binary, i.e. compressed by the client.
+   */
+  private receive(
+    connection: GatewayConnection,
+    data: Buffer,
+    isBinary: boolean,
+  ): void {
+    let frame: ClientFrame
+    try {
+      const format = isBinary ? detectCompression(data) : null
+      const text =
+        format === 'gzip'
+          ? gunzipSync(data)
+          : format === 'deflate'
+            ? inflateSync(data)
+            : data
+      frame = JSON.parse(text.toString())
+    } catch {
+      connection.socket.close(1003, 'Unsupported frame')
+      return
+    }
+
+    if (this.faults.drop?.(frame, 'inbound', connection)) {
+      return
+    }
+    this.emit('frame', frame, connection)
+
+    const {topic, messageType = 'broadcast', payload, id, compress} = frame.data
+    switch (frame.type) {
+      case 'subscribe':
+        if (!connection.permissions.can('subscribe', topic)) {
+          connection.socket.close(
+            1008,
+            'Subscription to secure topic is forbidden!',
+          )
+          return
+        }
+        connection.subscriptions.add(topic)
+        this.emit('subscription', topic, connection)
+        break
+      case 'unsubscribe':
+        connection.subscriptions.delete(topic)
+        break
+      case 'publish':
+        if (!connection.permissions.can('publish', topic)) {
+          connection.socket.close(1008, 'Publishing to topic is forbidden!')
+          return
+        }
+        this.route(
+          {
+            topic,
+            messageType,
+            data: {client: {connectionId: connection.id}, payload, id},
+          },
+          compress,
+        )
+        break
+      case 'message':
+        if (!connection.permissions.can('publish', this.inboundTopic)) {
+          connection.socket.close(1008, 'Publishing to topic is forbidden!')
+          return
+        }
+        this.route(
+          {
+            topic: this.inboundTopic,
+            messageType,
+            data: {client: {connectionId: connection.id}, payload, id},
+          },
+          compress,
+        )
+        break
+      default:
+        connection.socket.close(1003, 'Unsupported frame type')
+        return
+    }
+
+    if (id) {
+      this.send(connection, {
+        topic: 'priv/acks',
+        messageType: 'ack',
+        data: {data: id},
+      })
+    }
+  }
+
+  /**
+   * Sends a message to the subscribers of its topic, or to the recipient of a `priv/<connectionId>` topic.
+   *
+   * @param frame - The message.
+   * @param compress - Whether to compress the frames sent.
+   */
+  private route(frame: GatewayFrame, compress?: boolean): void {
+    const recipient = frame.topic.startsWith('priv/')
+      ? this.connections.get(frame.topic.substring(5))
+      : null
+
+    for (const connection of this.connections.values()) {
+      if (
+        connection === recipient ||
+        connection.subscriptions.has(frame.topic)
+      ) {
+        this.send(connection, frame, compress)
+      }
+    }
+  }
+
+  /**
+   * Notifies the subscribers of the inbound topic that a client connected or disconnected.
+   *
+   * @param connection - The client.
+   * @param status - `'connected'` or `'disconnected'`.
+   */
+  private presence(
+    connection: GatewayConnection,
+    status: 'connected' | 'disconnected',
+  ): void {
+    this.route({
+      topic: this.inboundTopic,
+      messageType: 'presence',
+      data: {client: {connectionId: connection.id}, payload: {status}},
+    })
+  }
+
+  /**
+   * Sends a frame to a client, applying the injected faults.
+   *
+   * @param connection - The recipient.
+   * @param frame - The frame.
+   * @param compress - Whether to compress the frame, sent as a gzip binary frame.
+   */
+  private send(
+    connection: GatewayConnection,
+    frame: GatewayFrame,
+    compress?: boolean,
+  ): void {
+    if (this.faults.drop?.(frame, 'outbound', connection)) {
+      return
+    }
+
+    const text = JSON.stringify(frame)
+    const data = compress ? gzipSync(text) : text
+    const write = () => {
+      if (connection.socket.readyState === WebSocket.OPEN) {
+        connection.socket.send(data)
+      }
+    }
+
+    if (this.faults.delay) {
+      setTimeout(write, this.faults.delay)
+    } else {
+      write()
+    }
+  }
+
+  /**
+   * Selects connections.
+   *
+   * @param connectionId - The connection to select. Defaults to every connection.
+   * @returns The selected connections.
+   */
+  private select(connectionId?: string): GatewayConnection[] {
+    return connectionId
+      ? [this.connections.get(connectionId)].filter(Boolean)
+      : [...this.connections.values()]
+  }
+}
@@ -0,0 +1,139 @@
+import assert from 'assert/strict'
+import {Heartbeat} from '../libs/heartbeat'
+import {
+  createMemoryTransportPair,
+  RealtimeClient,
+  StaleConnectionEvent,
+  TransportCloseEvent,
+} from '../libs'
+import {describe, it} from 'node:test'
+import {connection, connectClient} from './memory'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('Heartbeat Suite', () => {
+  it('should ping idle connections and record round-trip times', async () => {
+    let pings = 0
+    const heartbeat = new Heartbeat(
+      {interval: 20, timeout: 1000},
+      async () => {
+        pings++
+        heartbeat.touch()
+      },
+      () => assert.fail('Connection reported as stale'),
+    )
+
+    heartbeat.start()
+    await sleep(100)
+    heartbeat.stop()
+
+    assert.ok(pings > 0)
+    assert.equal(heartbeat.rtt.length, pings)
+  })
+
+  it('should not ping connections receiving frames', async () => {
+    const heartbeat = new Heartbeat(
+      {interval: 40, timeout: 1000},
+      () => assert.fail('Ping sent'),
+      () => assert.fail('Connection reported as stale'),
+    )
+    const timer = setInterval(() => heartbeat.touch(), 5)
+
+    heartbeat.start()
+    await sleep(100)
+    heartbeat.stop()
+    clearInterval(timer)
+  })
+
+  it('should report stale connections once', async () => {
+    const events: StaleConnectionEvent[] = []
+    const heartbeat = new Heartbeat(
+      {interval: 10, timeout: 30},
+      () => new Promise(() => {}),
+      (event) => events.push(event),
+    )
+
+    heartbeat.start()
+    await sleep(100)
+
+    assert.equal(events.length, 1)
+    assert.ok(events[0].idle >= 30)
+    assert.deepEqual(events[0].rtt, [])
+  })
+
+  it('should close stale connections with pings left unacknowledged', async () => {
+    const {client, frames} = await connectClient({
+      heartbeat: {interval: 20, timeout: 50},
+    })
+    const events: StaleConnectionEvent[] = []
+    const closes: TransportCloseEvent[] = []
+    client.on('connection.stale', (event) => events.push(event))
+    client.on('close', (event) => closes.push(event))
+
+    await sleep(150)
+
+    assert.ok(frames.some(({data}) => data.messageType === 'heartbeat'))
+    assert.equal(events.length, 1)
+    assert.deepEqual(closes, [{code: 4000, reason: 'Stale connection'}])
+    assert.equal(client.state, 'closed')
+  })
+
+  it('should reconnect stale connections and monitor every session', async () => {
+    const [transport, peer] = createMemoryTransportPair()
+    const reconnects: [number, string][] = []
+    const client = new RealtimeClient({
+      websocketOptions: {urlProvider: async () => 'memory://'},
+      transport: () =>
+        Object.assign(transport, {
+          reconnect: (code: number, reason: string) =>
+            reconnects.push([code, reason]),
+        }),
+      heartbeat: {interval: 20, timeout: 50},
+    })
+    const events: StaleConnectionEvent[] = []
+    client.on('connection.stale', (event) => events.push(event))
+    const welcome = () =>
+      peer.send(
+        JSON.stringify({
+          topic: 'main',
+          messageType: 'welcome',
+          data: {connection},
+        }),
+      )
+    peer.open()
+
+    const connected = client.connect()
+    welcome()
+    await connected
+    await sleep(150)
+    assert.equal(events.length, 1)
+
+    // The session restarts on the same transport, as a reconnecting transport would
+    welcome()
+    await sleep(150)
+
+    assert.equal(events.length, 2)
+    assert.deepEqual(reconnects, [
+      [4000, 'Stale connection'],
+      [4000, 'Stale connection'],
+    ])
+    client.disconnect()
+  })
+
+  it('should not ping without permission to publish to the inbound topic', async () => {
+    const permissions = ['realtime:subscriber:read:topic:*']
+    const {client, frames} = await connectClient({
+      heartbeat: {interval: 20, timeout: 50},
+      websocketOptions: {
+        urlProvider: async () => ({url: 'memory://', permissions}),
+      },
+    })
+    const events: StaleConnectionEvent[] = []
+    client.on('connection.stale', (event) => events.push(event))
+
+    await sleep(150)
+
+    assert.deepEqual(frames, [])
+    assert.equal(events.length, 1)
+  })
+})
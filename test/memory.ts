@@ -0,0 +1,86 @@
+import {
+  ClientOptions,
+  createMemoryTransportPair,
+  MemoryTransport,
+  MessageDefinition,
+  MessageSchema,
+  RealtimeClient,
+} from '../libs'
+
+/**
+ * Schema type parameter of the `RealtimeClient`.
+ */
+type Schema<S> = {[K in keyof S]: MessageDefinition}
+
+/**
+ * Connection reported in the welcome message of a memory client.
+ */
+export const connection = {id: 'c1', appId: 'test', remoteAddress: '127.0.0.1'}
+
+/**
+ * Client driven over a memory transport, with the peer end standing in for the gateway.
+ */
+export interface MemoryClient<S extends Schema<S> = MessageSchema> {
+  client: RealtimeClient<S>
+  peer: MemoryTransport
+
+  /**
+   * Frames sent by the client, parsed.
+   */
+  frames: any[]
+
+  /**
+   * Sends a message to the client, as the gateway would.
+   */
+  receive: (topic: string, messageType: string, data: any) => void
+}
+
+/**
+ * Creates a client over a memory transport, and collects the frames it sends.
+ *
+ * @param options - Optional client options, merged over the memory defaults.
+ * @returns The client and its peer.
+ */
+export const createClient = <S extends Schema<S> = MessageSchema>(
+  options: Partial<ClientOptions> = {},
+): MemoryClient<S> => {
+  const [transport, peer] = createMemoryTransportPair()
+  const client = new RealtimeClient<S>({
+    ...options,
+    websocketOptions: {
+      urlProvider: async () => 'memory://',
+      ...options.websocketOptions,
+    },
+    transport: () => transport,
+  })
+  const frames: any[] = []
+  peer.onmessage = ({data}) => frames.push(JSON.parse(data))
+  peer.open()
+
+  const receive = (topic: string, messageType: string, data: any) =>
+    peer.send(JSON.stringify({topic, messageType, data}))
+
+  return {client, peer, frames, receive}
+}
+
+/**
+ * Creates a client over a memory transport, and starts its session.
+ *
+ * @param options - Optional client options, merged over the memory defaults.
+ * @returns A promise that resolves with the connected client and its peer.
+ */
+export const connectClient = async <S extends Schema<S> = MessageSchema>(
+  options: Partial<ClientOptions> = {},
+): Promise<MemoryClient<S>> => {
+  const memory = createClient<S>(options)
+  const connected = memory.client.connect()
+  memory.receive('main', 'welcome', {connection})
+  await connected
+
+  return memory
+}
+
+/**
+ * Waits for the pending microtasks and timers of the current turn.
+ */
+export const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
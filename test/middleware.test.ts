@@ -0,0 +1,124 @@
+import assert from 'assert/strict'
+import {IncomingMessage, RealtimeError} from '../libs'
+import {Pipeline} from '../libs/middleware'
+import {describe, it} from 'node:test'
+import {connectClient, tick} from './memory'
+
+describe('Middleware Suite', () => {
+  it('should run stages in registration order', async () => {
+    const pipeline = new Pipeline<string[]>()
+    pipeline.add((envelope, next) => next([...envelope, 'first']))
+    pipeline.add((envelope, next) => next([...envelope, 'second']))
+
+    let result: string[]
+    assert.equal(
+      await pipeline.run([], (envelope) => (result = envelope)),
+      true,
+    )
+    assert.deepEqual(result, ['first', 'second'])
+  })
+
+  it('should drop envelopes when a stage does not call next()', async () => {
+    const pipeline = new Pipeline<number>()
+    const seen: number[] = []
+    pipeline.add(async (envelope, next) => {
+      if (envelope % 2) {
+        await next()
+      }
+    })
+    const remove = pipeline.add((envelope, next) => {
+      seen.push(envelope)
+      return next()
+    })
+
+    assert.equal(await pipeline.run(1, () => {}), true)
+    assert.equal(await pipeline.run(2, () => {}), false)
+    remove()
+    await pipeline.run(3, () => {})
+
+    assert.deepEqual(seen, [1])
+    assert.equal(pipeline.size, 1)
+  })
+
+  it('should not reorder envelopes through asynchronous stages', async () => {
+    const pipeline = new Pipeline<number>()
+    const done: number[] = []
+    pipeline.add(async (envelope, next) => {
+      await new Promise((resolve) => setTimeout(resolve, 10 - envelope * 5))
+      await next()
+    })
+
+    await Promise.all([1, 2].map((n) => pipeline.run(n, () => done.push(n))))
+
+    assert.deepEqual(done, [1, 2])
+  })
+
+  it('should reject when next() is called twice', async () => {
+    const pipeline = new Pipeline<number>()
+    pipeline.add(async (envelope, next) => {
+      await next()
+      await next()
+    })
+
+    await assert.rejects(
+      pipeline.run(1, () => {}),
+      RealtimeError,
+    )
+  })
+
+  it('should reject messages dropped on the way out', async () => {
+    const {client, frames} = await connectClient()
+    client.use({
+      outbound: async (frame, next) => {
+        if (frame.data.payload !== 'secret') {
+          await next({...frame, data: {...frame.data, audited: true}})
+        }
+      },
+    })
+
+    client.publish('chat', 'Hello', {id: 'm1'})
+    const dropped = client.publish('chat', 'secret').waitForAck(1000)
+    await assert.rejects(dropped, /Message dropped by middleware/)
+    await tick()
+
+    assert.deepEqual(frames, [
+      {
+        type: 'publish',
+        data: {
+          topic: 'chat',
+          payload: 'Hello',
+          id: 'm1',
+          audited: true,
+        },
+      },
+    ])
+    client.disconnect()
+  })
+
+  it('should filter incoming messages in order', async () => {
+    const {client, receive} = await connectClient()
+    const received: string[] = []
+    client.use({
+      inbound: async (message, next) => {
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        if (message.data.client?.connectionId !== 'blocked') {
+          await next()
+        }
+      },
+    })
+    client.on('chat.text', (message: IncomingMessage) =>
+      received.push(message.data.payload),
+    )
+
+    receive('chat', 'text', {payload: 'one', client: {connectionId: 'a'}})
+    receive('chat', 'text', {
+      payload: 'spam',
+      client: {connectionId: 'blocked'},
+    })
+    receive('chat', 'text', {payload: 'two', client: {connectionId: 'b'}})
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    assert.deepEqual(received, ['one', 'two'])
+    client.disconnect()
+  })
+})
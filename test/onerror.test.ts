@@ -5,28 +5,41 @@ import {
   RealtimeClient,
   ReplyFunction,
 } from '../libs'
-import {describe, it} from 'node:test'
-import {config, getAuthToken} from './config'
+import {WebSocket} from 'ws'
+import {after, before, describe, it} from 'node:test'
+import {getAuthToken} from './config'
+import {MockGateway} from './gateway'
 import {WaitForOptions} from 'eventemitter2'
 
 describe('OnError Suite', () => {
+  let gateway: MockGateway
   let client1: RealtimeClient
 
+  before(async () => {
+    gateway = await MockGateway.start()
+  })
+
+  after(async () => {
+    client1.disconnect()
+    await gateway.close()
+  })
+
   it('should close connection on missing permissions (maxRetries=0)', async () => {
     client1 = new RealtimeClient({
       websocketOptions: {
         maxRetries: 0,
+        WebSocket,
         urlProvider: async () => {
           const ACCESS_TOKEN = getAuthToken(
-            config.WEBSOCKET_CLIENTS_SIGNING_KEY,
+            'secret',
             5,
             {
               permissions: [],
             },
-            config.ALGORITHM,
+            'HS256',
           )
 
-          return `wss://${config.CLUSTER_HOSTNAME}/apps/${config.APP_ID}?access_token=${ACCESS_TOKEN}`
+          return gateway.url(ACCESS_TOKEN)
         },
       },
     })
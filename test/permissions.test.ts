@@ -0,0 +1,85 @@
+import assert from 'assert/strict'
+import {PermissionDeniedError} from '../libs'
+import {Permissions} from '../libs/permissions'
+import {describe, it} from 'node:test'
+import {connection, connectClient, createClient, tick} from './memory'
+
+describe('Permissions Suite', () => {
+  it('should match publish permissions with wildcards', () => {
+    const permissions = new Permissions([
+      'realtime:publisher:write:topic:priv/*',
+      'realtime:publisher:write:topic:chat',
+    ])
+
+    assert.equal(permissions.can('publish', 'priv/abc'), true)
+    assert.equal(permissions.can('publish', 'chat'), true)
+    assert.equal(permissions.can('publish', 'chat/room'), false)
+    assert.equal(permissions.can('publish', 'private'), false)
+  })
+
+  it('should only require subscribe permissions for secure topics', () => {
+    const permissions = new Permissions([
+      'realtime:subscriber:read:topic:secure/orders.*',
+    ])
+
+    assert.equal(permissions.can('subscribe', 'news'), true)
+    assert.equal(permissions.can('subscribe', 'secure/orders.eu'), true)
+    assert.equal(permissions.can('subscribe', 'secure/ordersXeu'), false)
+    assert.equal(permissions.can('subscribe', 'secure/users'), false)
+    assert.equal(permissions.can('publish', 'secure/orders.eu'), false)
+  })
+
+  it('should deny every publication without permissions', () => {
+    const permissions = new Permissions([])
+
+    assert.equal(permissions.can('publish', 'chat'), false)
+    assert.equal(permissions.can('subscribe', 'secure/inbound'), false)
+  })
+
+  it('should check sent messages as publications to the inbound topic', async () => {
+    const permissions = ['realtime:publisher:write:topic:chat']
+    const {client, frames} = await connectClient({
+      permissionCheck: true,
+      websocketOptions: {
+        urlProvider: async () => ({url: 'memory://', permissions}),
+      },
+    })
+
+    assert.throws(
+      () => client.send('Hello', {id: 'm1', messageType: 'text'}),
+      (error: PermissionDeniedError) => {
+        assert.ok(error instanceof PermissionDeniedError)
+        assert.equal(error.topic, 'secure/inbound')
+        return true
+      },
+    )
+    client.publish('chat', 'Hello', {id: 'm2'})
+    await tick()
+
+    assert.deepEqual(
+      frames.map(({data}) => data.id),
+      ['m2'],
+    )
+    client.disconnect()
+  })
+
+  it('should drop denied subscriptions when the session starts', async () => {
+    const {client, frames, receive} = createClient({
+      permissionCheck: true,
+      websocketOptions: {
+        urlProvider: async () => ({url: 'memory://', permissions: []}),
+      },
+    })
+    client.subscribeRemoteTopic('secure/orders')
+    client.subscribeRemoteTopic('news')
+
+    const connected = client.connect(1000)
+    receive('main', 'welcome', {connection})
+    await connected
+    await tick()
+
+    assert.deepEqual(client.getSubscriptions(), ['news'])
+    assert.deepEqual(frames, [{type: 'subscribe', data: {topic: 'news'}}])
+    client.disconnect()
+  })
+})
@@ -0,0 +1,87 @@
+import assert from 'assert/strict'
+import {ConnectionClosedError, RealtimeError} from '../libs'
+import {OutboundQueue} from '../libs/queue'
+import {describe, it} from 'node:test'
+import {connectClient, connection, createClient} from './memory'
+
+describe('Outbound Queue Suite', () => {
+  const fill = (queue: OutboundQueue<number>, ...items: number[]) =>
+    items.map((item) => queue.enqueue(item))
+
+  it('should drop the oldest entry by default', () => {
+    const queue = new OutboundQueue<number>({maxSize: 2})
+
+    assert.deepEqual(fill(queue, 1, 2, 3), [undefined, undefined, 1])
+    assert.deepEqual(queue.drain(), [2, 3])
+  })
+
+  it('should drop the newest entry', () => {
+    const queue = new OutboundQueue<number>({
+      maxSize: 2,
+      overflow: 'drop-newest',
+    })
+
+    assert.deepEqual(fill(queue, 1, 2, 3), [undefined, undefined, 3])
+    assert.deepEqual(queue.drain(), [1, 2])
+  })
+
+  it('should reject entries when full', () => {
+    const queue = new OutboundQueue<number>({maxSize: 1, overflow: 'reject'})
+    queue.enqueue(1)
+
+    assert.throws(() => queue.enqueue(2), RealtimeError)
+    assert.equal(queue.size, 1)
+  })
+
+  it('should remove and drain entries in order', () => {
+    const queue = new OutboundQueue<number>()
+    fill(queue, 1, 2, 3)
+
+    assert.equal(queue.remove(2), true)
+    assert.equal(queue.remove(2), false)
+    assert.deepEqual(queue.drain(), [1, 3])
+    assert.equal(queue.size, 0)
+  })
+
+  it('should flush buffered messages in order, without the aborted ones', async () => {
+    const {client, frames, receive} = createClient()
+    const controller = new AbortController()
+
+    client.publish('chat', 'one', {id: 'm1'})
+    const aborted = client
+      .publish('chat', 'two', {id: 'm2', signal: controller.signal})
+      .waitForAck(1000)
+    client.publish('chat', 'three', {id: 'm3'})
+    controller.abort('Changed my mind')
+    await assert.rejects(aborted, {name: 'AbortError'})
+
+    const connected = client.connect()
+    receive('main', 'welcome', {connection})
+    await connected
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    assert.deepEqual(
+      frames.map((frame) => frame.data.id),
+      ['m1', 'm3'],
+    )
+    client.disconnect()
+  })
+
+  it('should reject messages right away once the client is closed', async () => {
+    const {client, frames} = await connectClient()
+    client.disconnect()
+
+    const startedAt = Date.now()
+    await assert.rejects(
+      client.publish('chat', 'late').waitForAck(1000),
+      ConnectionClosedError,
+    )
+    await assert.rejects(
+      client.send('late').waitForReply(1000),
+      ConnectionClosedError,
+    )
+
+    assert.ok(Date.now() - startedAt < 100)
+    assert.deepEqual(frames, [])
+  })
+})
@@ -0,0 +1,166 @@
+import assert from 'assert/strict'
+import {
+  IncomingMessage,
+  RealtimeError,
+  RemoteError,
+  ReplyFunction,
+  ReplyTimeoutError,
+} from '../libs'
+import {describe, it} from 'node:test'
+import {connectClient, MemoryClient, tick} from './memory'
+
+describe('Replies Suite', () => {
+  /**
+   * Sends a reply to message `m1`, as a responder would through the gateway.
+   */
+  const respond = (
+    {receive}: MemoryClient,
+    connectionId: string,
+    response: Record<string, any>,
+  ) =>
+    receive('priv/c1', 'response', {
+      client: {connectionId},
+      payload: {id: 'm1', status: 'ok', ...response},
+    })
+
+  it('should collect replies until the count is reached', async () => {
+    const memory = await connectClient()
+    const replies = memory.client
+      .publish('devices', 'version?', {id: 'm1'})
+      .waitForReplies({count: 2, timeout: 1000})
+
+    respond(memory, 'd1', {data: '1.0'})
+    respond(memory, 'd2', {data: '1.1'})
+    respond(memory, 'd3', {data: '1.2'})
+
+    assert.deepEqual(
+      (await replies).map(({response, connectionId}) => [
+        connectionId,
+        response.data,
+      ]),
+      [
+        ['d1', '1.0'],
+        ['d2', '1.1'],
+      ],
+    )
+    memory.client.disconnect()
+  })
+
+  it('should resolve with the replies collected when the timeout expires', async () => {
+    const memory = await connectClient()
+    const replies = memory.client
+      .publish('devices', 'version?', {id: 'm1'})
+      .waitForReplies({timeout: 50})
+
+    respond(memory, 'd1', {data: '1.0'})
+
+    assert.deepEqual(
+      (await replies).map(({connectionId}) => connectionId),
+      ['d1'],
+    )
+    assert.deepEqual(memory.client.getPendingRequests(), [])
+    memory.client.disconnect()
+  })
+
+  it('should stop collecting once the predicate matches', async () => {
+    const memory = await connectClient()
+    const replies = memory.client
+      .publish('devices', 'version?', {id: 'm1'})
+      .waitForReplies({
+        timeout: 1000,
+        until: (reply) => reply.response.data === '2.0',
+      })
+
+    respond(memory, 'd1', {data: '1.0'})
+    respond(memory, 'd2', {data: '2.0'})
+    respond(memory, 'd3', {data: '1.0'})
+
+    assert.deepEqual(
+      (await replies).map(({connectionId}) => connectionId),
+      ['d1', 'd2'],
+    )
+    memory.client.disconnect()
+  })
+
+  it('should stream replies in sequence order', async () => {
+    const memory = await connectClient()
+    const stream = memory.client
+      .send('report', {id: 'm1'})
+      .replyStream({idleTimeout: 1000})
+
+    respond(memory, 'r1', {seq: 1, data: 'half'})
+    respond(memory, 'r1', {seq: 0, data: 'started'})
+    respond(memory, 'r1', {seq: 0, data: 'started'})
+    respond(memory, 'r1', {seq: 2, data: 'done', done: true})
+
+    const chunks: string[] = []
+    for await (const res of stream) {
+      chunks.push(res.data)
+    }
+
+    assert.deepEqual(chunks, ['started', 'half', 'done'])
+    memory.client.disconnect()
+  })
+
+  it('should throw when the stream stays idle', async () => {
+    const memory = await connectClient()
+    const stream = memory.client
+      .send('report', {id: 'm1'})
+      .replyStream({idleTimeout: 50})
+
+    respond(memory, 'r1', {seq: 0, data: 'started'})
+
+    assert.equal((await stream.next()).value.data, 'started')
+    await assert.rejects(stream.next(), ReplyTimeoutError)
+    memory.client.disconnect()
+  })
+
+  it('should throw error replies', async () => {
+    const memory = await connectClient()
+    const stream = memory.client
+      .send('report', {id: 'm1'})
+      .replyStream({idleTimeout: 1000})
+
+    respond(memory, 'r1', {seq: 0, status: 'error', data: 'Failed'})
+
+    await assert.rejects(stream.next(), RemoteError)
+    memory.client.disconnect()
+  })
+
+  it('should number the replies written to a stream', async () => {
+    const {client, frames, receive} = await connectClient()
+    let closed: Error
+    client.on(
+      'secure/inbound.report',
+      (message: IncomingMessage, reply: ReplyFunction) => {
+        const stream = reply.stream()
+        stream.write('started')
+        stream.end('done')
+        try {
+          stream.write('late')
+        } catch (error) {
+          closed = error
+        }
+      },
+    )
+
+    receive('secure/inbound', 'report', {
+      id: 'm1',
+      client: {connectionId: 'r1'},
+    })
+    await tick()
+
+    assert.deepEqual(
+      frames.map(({data}) => [data.topic, data.payload]),
+      [
+        [
+          'priv/r1',
+          {id: 'm1', status: 'ok', data: 'started', seq: 0, done: false},
+        ],
+        ['priv/r1', {id: 'm1', status: 'ok', data: 'done', seq: 1, done: true}],
+      ],
+    )
+    assert.ok(closed instanceof RealtimeError)
+    client.disconnect()
+  })
+})
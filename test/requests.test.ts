@@ -0,0 +1,95 @@
+import assert from 'assert/strict'
+import {ConnectionClosedError, RealtimeError} from '../libs'
+import {PendingRequest, PendingRequests} from '../libs/requests'
+import {describe, it} from 'node:test'
+import {connectClient, tick} from './memory'
+
+describe('Pending Requests Suite', () => {
+  const createRequest = (id: string, kind: 'ack' | 'reply' = 'ack') => {
+    const errors: Error[] = []
+    const request: PendingRequest = {
+      id,
+      kind,
+      context: {id, topic: 'chat'},
+      createdAt: Date.now(),
+      reject: (error) => errors.push(error),
+    }
+
+    return {request, errors}
+  }
+
+  it('should evict and reject the oldest request when full', () => {
+    const registry = new PendingRequests({maxSize: 2})
+    const first = createRequest('m1')
+    const second = createRequest('m1', 'reply')
+    const third = createRequest('m2')
+
+    registry.add(first.request)
+    registry.add(second.request)
+    registry.add(third.request)
+
+    assert.equal(registry.size, 2)
+    assert.equal(first.errors.length, 1)
+    assert.ok(first.errors[0] instanceof RealtimeError)
+    assert.equal(first.errors[0].message, 'Too many pending requests')
+    assert.deepEqual(second.errors, [])
+    assert.deepEqual(
+      registry.list().map(({id, kind}) => [id, kind]),
+      [
+        ['m1', 'reply'],
+        ['m2', 'ack'],
+      ],
+    )
+  })
+
+  it('should unregister settled requests', () => {
+    const registry = new PendingRequests()
+    const {request} = createRequest('m1')
+
+    registry.add(request)
+    registry.delete(request)
+    registry.delete(request)
+
+    assert.equal(registry.size, 0)
+    assert.deepEqual(registry.list(), [])
+  })
+
+  it('should reject every request at once', () => {
+    const registry = new PendingRequests()
+    const first = createRequest('m1')
+    const second = createRequest('m2', 'reply')
+    registry.add(first.request)
+    registry.add(second.request)
+
+    registry.rejectAll(
+      (request) => new ConnectionClosedError('Closed', request.context),
+    )
+
+    assert.equal(registry.size, 0)
+    assert.equal(first.errors[0].message, 'Closed')
+    assert.equal((second.errors[0] as ConnectionClosedError).id, 'm2')
+  })
+
+  it('should reject the waits in flight when the connection drops', async () => {
+    const {client, peer} = await connectClient()
+    const ack = client.publish('chat', 'Hello', {id: 'm1'}).waitForAck(5000)
+    const reply = client.send('Hello', {id: 'm2'}).waitForReply(5000)
+    await tick()
+
+    assert.deepEqual(
+      client.getPendingRequests().map(({id, kind}) => [id, kind]),
+      [
+        ['m1', 'ack'],
+        ['m2', 'reply'],
+      ],
+    )
+
+    peer.close(1012, 'Service restart')
+    await assert.rejects(ack, (error: ConnectionClosedError) => {
+      assert.equal(error.code, 1012)
+      return true
+    })
+    await assert.rejects(reply, ConnectionClosedError)
+    assert.deepEqual(client.getPendingRequests(), [])
+  })
+})
@@ -0,0 +1,144 @@
+import assert from 'assert/strict'
+import {RemoteError, ReplyTimeoutError} from '../libs'
+import {describe, it} from 'node:test'
+import {connectClient, MemoryClient, tick} from './memory'
+
+describe('RPC Suite', () => {
+  /**
+   * Sends a `gettime` request to the client, as the gateway routes a request sent by connection `r1`.
+   */
+  const request = ({receive}: MemoryClient, payload: any, client = true) =>
+    receive('secure/inbound', 'gettime', {
+      id: 'm1',
+      payload,
+      client: client ? {connectionId: 'r1'} : undefined,
+    })
+
+  const replies = ({frames}: MemoryClient) =>
+    frames
+      .filter(({data}) => data.topic === 'priv/r1')
+      .map(({data}) => data.payload)
+
+  it('should reply with the result of a handler', async () => {
+    const memory = await connectClient()
+    memory.client.handle('secure/inbound', 'gettime', async (zone) => ({
+      zone,
+      time: 42,
+    }))
+
+    request(memory, 'UTC')
+    await tick()
+
+    assert.deepEqual(replies(memory), [
+      {id: 'm1', status: 'ok', data: {zone: 'UTC', time: 42}},
+    ])
+    memory.client.disconnect()
+  })
+
+  it('should reply with the errors thrown by a handler', async () => {
+    const memory = await connectClient()
+    memory.client.handle('secure/inbound', 'gettime', async () => {
+      throw new TypeError('Unknown zone')
+    })
+
+    request(memory, 'Mars')
+    await tick()
+
+    assert.deepEqual(replies(memory), [
+      {
+        id: 'm1',
+        status: 'error',
+        data: {name: 'TypeError', message: 'Unknown zone'},
+      },
+    ])
+    memory.client.disconnect()
+  })
+
+  it('should abort handlers exceeding their timeout', async () => {
+    const memory = await connectClient()
+    let signal: AbortSignal
+    memory.client.handle(
+      'secure/inbound',
+      'gettime',
+      (_, context) => {
+        signal = context.signal
+        return new Promise(() => {})
+      },
+      {timeout: 20},
+    )
+
+    request(memory, 'UTC')
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    assert.equal(signal.aborted, true)
+    assert.equal(replies(memory)[0].status, 'error')
+    assert.equal(replies(memory)[0].data.name, 'TimeoutError')
+    memory.client.disconnect()
+  })
+
+  it('should ignore requests not sent by a client', async () => {
+    const memory = await connectClient()
+    let calls = 0
+    const unregister = memory.client.handle(
+      'secure/inbound',
+      'gettime',
+      async () => calls++,
+    )
+
+    request(memory, 'UTC', false)
+    await tick()
+    unregister()
+    request(memory, 'UTC')
+    await tick()
+
+    assert.equal(calls, 0)
+    assert.deepEqual(memory.frames, [])
+    memory.client.disconnect()
+  })
+
+  it('should resolve calls with the reply data', async () => {
+    const memory = await connectClient()
+    const time = memory.client.call('gettime', 'UTC')
+    await tick()
+
+    const [{type, data}] = memory.frames
+    assert.equal(type, 'message')
+    assert.equal(data.messageType, 'gettime')
+    memory.receive('priv/c1', 'response', {
+      payload: {id: data.id, status: 'ok', data: 42},
+    })
+
+    assert.equal(await time, 42)
+    memory.client.disconnect()
+  })
+
+  it('should reject calls with error replies', async () => {
+    const memory = await connectClient()
+    const time = memory.client.call('gettime', 'Mars', {topic: 'clock'})
+    await tick()
+
+    const [{type, data}] = memory.frames
+    assert.equal(type, 'publish')
+    assert.equal(data.topic, 'clock')
+    memory.receive('priv/c1', 'response', {
+      payload: {id: data.id, status: 'error', data: {message: 'Unknown zone'}},
+    })
+
+    await assert.rejects(time, (error: RemoteError) => {
+      assert.ok(error instanceof RemoteError)
+      assert.deepEqual(error.data, {message: 'Unknown zone'})
+      return true
+    })
+    memory.client.disconnect()
+  })
+
+  it('should reject calls without a reply in time', async () => {
+    const {client} = await connectClient()
+
+    await assert.rejects(
+      client.call('gettime', 'UTC', {timeout: 20}),
+      ReplyTimeoutError,
+    )
+    client.disconnect()
+  })
+})
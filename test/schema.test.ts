@@ -0,0 +1,70 @@
+import assert from 'assert/strict'
+import {describe, it} from 'node:test'
+import {connectClient, tick} from './memory'
+
+type AppSchema = {
+  'orders.eu.created': {payload: {total: number}}
+  'orders.eu.cancelled': {payload: {reason: string}}
+  'orders.created': {payload: {total: number; currency: string}}
+  'clock.gettime': {payload: {zone: string}; reply: {time: number}}
+}
+
+describe('Schema Suite', () => {
+  it('should split schema keys on their last dot', async () => {
+    const {client, frames} = await connectClient<AppSchema>()
+
+    client.subscribeRemoteTopic('orders.eu')
+    client.publish('orders.eu', {total: 1}, {messageType: 'created'})
+    client.publish(
+      'orders',
+      {total: 1, currency: 'EUR'},
+      {messageType: 'created'},
+    )
+    // @ts-expect-error 'eu.created' is not a message type of topic 'orders'
+    client.publish('orders', {total: 1}, {messageType: 'eu.created'})
+    // @ts-expect-error 'cancelled' orders have a reason, not a total
+    client.publish('orders.eu', {total: 1}, {messageType: 'cancelled'})
+    await tick()
+
+    assert.deepEqual(
+      frames.map(({type, data}) => [type, data.topic, data.messageType]),
+      [
+        ['subscribe', 'orders.eu', undefined],
+        ['publish', 'orders.eu', 'created'],
+        ['publish', 'orders', 'created'],
+        ['publish', 'orders', 'eu.created'],
+        ['publish', 'orders.eu', 'cancelled'],
+      ],
+    )
+    client.disconnect()
+  })
+
+  it('should match the listeners of dotted topics', async () => {
+    const {client, receive} = await connectClient<AppSchema>()
+    const totals: number[] = []
+
+    client.on('orders.eu.*', (message) => {
+      if ('total' in message.data.payload) {
+        totals.push(message.data.payload.total)
+      }
+    })
+    client.on('orders.*', (message) =>
+      totals.push(message.data.payload.total * 100),
+    )
+    const stream = client.stream('orders.eu.*')
+
+    receive('orders.eu', 'cancelled', {payload: {reason: 'Late'}})
+    receive('orders.eu', 'created', {payload: {total: 1}})
+    receive('orders', 'created', {payload: {total: 2, currency: 'EUR'}})
+    await tick()
+
+    const {value} = await stream.next()
+    assert.deepEqual(
+      [value.topic, value.messageType],
+      ['orders.eu', 'cancelled'],
+    )
+    assert.deepEqual(totals, [1, 200])
+    await stream.return()
+    client.disconnect()
+  })
+})
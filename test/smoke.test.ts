@@ -4,11 +4,15 @@ import {
   IncomingMessage,
   RealtimeClient,
   ReplyFunction,
+  ReplyTimeoutError,
 } from '../libs'
-import {describe, it} from 'node:test'
-import {config, getAuthToken} from './config'
+import {WebSocket} from 'ws'
+import {after, before, describe, it} from 'node:test'
+import {getAuthToken} from './config'
+import {MockGateway} from './gateway'
 
 describe('Smoke Suite', () => {
+  let gateway: MockGateway
   let server: RealtimeClient
   let client1: RealtimeClient
   let serverConnectionInfo: ConnectionInfo
@@ -16,13 +20,22 @@ describe('Smoke Suite', () => {
 
   let clientMessages: IncomingMessage[] = []
 
+  before(async () => {
+    gateway = await MockGateway.start()
+  })
+
+  after(async () => {
+    await gateway.close()
+  })
+
   it('creating server connection', async () => {
     server = new RealtimeClient({
       websocketOptions: {
         maxRetries: 10,
+        WebSocket,
         urlProvider: async () => {
           const ACCESS_TOKEN = getAuthToken(
-            config.WEBSOCKET_CLIENTS_SIGNING_KEY,
+            'secret',
             5,
             {
               permissions: [
@@ -30,10 +43,10 @@ describe('Smoke Suite', () => {
                 'realtime:subscriber:read:topic:*',
               ],
             },
-            config.ALGORITHM,
+            'HS256',
           )
 
-          return `wss://${config.CLUSTER_HOSTNAME}/apps/${config.APP_ID}?access_token=${ACCESS_TOKEN}`
+          return gateway.url(ACCESS_TOKEN)
         },
       },
     })
@@ -46,19 +59,20 @@ describe('Smoke Suite', () => {
       server.subscribeRemoteTopic('secure/inbound')
     })
 
-    await server.connect()
-    await server.waitFor('session.started')
+    const connection = await server.connect()
 
     assert.notEqual(serverConnectionInfo.id, null)
+    assert.equal(connection.id, serverConnectionInfo.id)
   })
 
   it('creating client1 connection', async () => {
     client1 = new RealtimeClient({
       websocketOptions: {
         maxRetries: 10,
+        WebSocket,
         urlProvider: async () => {
           const ACCESS_TOKEN = getAuthToken(
-            config.WEBSOCKET_CLIENTS_SIGNING_KEY,
+            'secret',
             5,
             {
               permissions: [
@@ -66,10 +80,10 @@ describe('Smoke Suite', () => {
                 'realtime:subscriber:read:topic:*',
               ],
             },
-            config.ALGORITHM,
+            'HS256',
           )
 
-          return `wss://${config.CLUSTER_HOSTNAME}/apps/${config.APP_ID}?access_token=${ACCESS_TOKEN}`
+          return gateway.url(ACCESS_TOKEN)
         },
       },
     })
@@ -80,10 +94,11 @@ describe('Smoke Suite', () => {
       // always subscribe topics here
       client1.subscribeRemoteTopic('notifications')
     })
-    await client1.connect()
-    await client1.waitFor('session.started')
+    const connection = await client1.connect()
 
     assert.notEqual(clientConnectionInfo.id, null)
+    assert.equal(connection.id, clientConnectionInfo.id)
+    assert.deepEqual(client1.getSubscriptions(), ['notifications'])
   })
 
   it('subscribing client to notifications events', () => {
@@ -205,6 +220,7 @@ describe('Smoke Suite', () => {
         .waitForReply(100)
     } catch (error) {
       assert.equal(error.message, 'timeout')
+      assert.ok(error instanceof ReplyTimeoutError)
     }
   })
 
@@ -217,6 +233,7 @@ describe('Smoke Suite', () => {
         .waitForReply(100)
     } catch (error) {
       assert.equal(error.message, 'timeout')
+      assert.ok(error instanceof ReplyTimeoutError)
     }
   })
 
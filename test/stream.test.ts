@@ -0,0 +1,151 @@
+import assert from 'assert/strict'
+import {
+  AbortError,
+  IncomingMessage,
+  RealtimeClient,
+  RealtimeError,
+} from '../libs'
+import {describe, it} from 'node:test'
+import {connectClient, MemoryClient, tick} from './memory'
+
+describe('Stream Suite', () => {
+  /**
+   * Connects a memory client, sending messages with a bare payload.
+   */
+  const createClient = async () => {
+    const memory: MemoryClient = await connectClient()
+    const receive = (topic: string, messageType: string, payload: any) =>
+      memory.receive(topic, messageType, {payload})
+
+    return {...memory, receive}
+  }
+
+  const payloads = (messages: IncomingMessage[]) =>
+    messages.map((message) => message.data.payload)
+
+  it('should yield messages and unsubscribe when the loop exits', async () => {
+    const {client, frames, receive} = await createClient()
+    const messages: IncomingMessage[] = []
+    const listeners = client.listeners('orders.*').length
+
+    receive('orders', 'created', 1)
+    receive('orders', 'updated', 2)
+    receive('users', 'created', 3)
+    for await (const message of client.stream('orders.*', {subscribe: true})) {
+      messages.push(message)
+      if (messages.length === 2) {
+        break
+      }
+    }
+    await tick()
+
+    assert.deepEqual(payloads(messages), [1, 2])
+    assert.deepEqual(frames, [
+      {type: 'subscribe', data: {topic: 'orders'}},
+      {type: 'unsubscribe', data: {topic: 'orders'}},
+    ])
+    assert.equal(client.listeners('orders.*').length, listeners)
+    client.disconnect()
+  })
+
+  it('should drop the oldest messages when the buffer is full', async () => {
+    const {client, receive} = await createClient()
+    const stream = client.stream('orders.*', {bufferSize: 2})
+
+    receive('orders', 'created', 1)
+    receive('orders', 'created', 2)
+    receive('orders', 'created', 3)
+    await tick()
+
+    assert.equal((await stream.next()).value.data.payload, 2)
+    assert.equal((await stream.next()).value.data.payload, 3)
+    await stream.return()
+    client.disconnect()
+  })
+
+  it('should throw once the buffered messages are consumed on overflow', async () => {
+    const {client, receive} = await createClient()
+    const stream = client.stream('orders.*', {bufferSize: 1, overflow: 'error'})
+
+    receive('orders', 'created', 1)
+    receive('orders', 'created', 2)
+    await tick()
+
+    assert.equal((await stream.next()).value.data.payload, 1)
+    await assert.rejects(stream.next(), (error: RealtimeError) => {
+      assert.equal(error.message, 'Stream buffer overflow')
+      return true
+    })
+    assert.equal((await stream.next()).done, true)
+    client.disconnect()
+  })
+
+  it('should throw and unsubscribe when aborted', async () => {
+    const {client, frames} = await createClient()
+    const controller = new AbortController()
+    const stream = client.stream('orders.*', {
+      subscribe: true,
+      signal: controller.signal,
+    })
+
+    const next = stream.next()
+    controller.abort('Done')
+
+    await assert.rejects(next, AbortError)
+    assert.deepEqual(client.getSubscriptions(), [])
+    await tick()
+    assert.deepEqual(frames, [
+      {type: 'subscribe', data: {topic: 'orders'}},
+      {type: 'unsubscribe', data: {topic: 'orders'}},
+    ])
+    client.disconnect()
+  })
+
+  it('should unsubscribe once the last stream ends', async () => {
+    const {client, frames} = await createClient()
+    const first = client.stream('orders.*', {subscribe: true})
+    const second = client.stream('orders.created', {subscribe: true})
+
+    await first.return()
+    assert.deepEqual(client.getSubscriptions(), ['orders'])
+    await second.return()
+    await tick()
+
+    assert.deepEqual(client.getSubscriptions(), [])
+    assert.deepEqual(frames, [
+      {type: 'subscribe', data: {topic: 'orders'}},
+      {type: 'unsubscribe', data: {topic: 'orders'}},
+    ])
+    client.disconnect()
+  })
+
+  it('should keep topics subscribed by the application', async () => {
+    const {client, frames} = await createClient()
+    client.subscribeRemoteTopic('users')
+    const users = client.stream('users.*', {subscribe: true})
+    const orders = client.stream('orders.*', {subscribe: true})
+    client.subscribeRemoteTopic('orders')
+
+    await users.return()
+    await orders.return()
+    await tick()
+
+    assert.deepEqual(client.getSubscriptions(), ['users', 'orders'])
+    assert.deepEqual(frames, [
+      {type: 'subscribe', data: {topic: 'users'}},
+      {type: 'subscribe', data: {topic: 'orders'}},
+    ])
+    client.disconnect()
+  })
+
+  it('should not subscribe to topic patterns', () => {
+    const client = new RealtimeClient({
+      websocketOptions: {urlProvider: async () => 'memory://'},
+    })
+
+    assert.throws(
+      () => client.stream('*.created', {subscribe: true}),
+      RealtimeError,
+    )
+  })
+})
@@ -0,0 +1,128 @@
+import assert from 'assert/strict'
+import {
+  ConnectionInfo,
+  createMemoryTransportPair,
+  IncomingMessage,
+  RealtimeClient,
+} from '../libs'
+import {tokenExpiry, tokenPermissions} from '../libs/token'
+import {describe, it} from 'node:test'
+import {getAuthToken} from './config'
+import {connection} from './memory'
+
+describe('Token Suite', () => {
+  it('should decode the expiry of the access token of a URL', () => {
+    const token = getAuthToken('secret', 60, {permissions: []}, 'HS256')
+    const expiresAt = tokenExpiry(
+      `wss://localhost/apps/app?access_token=${token}`,
+    )
+
+    assert.ok(expiresAt > Date.now() + 58000)
+    assert.ok(expiresAt <= Date.now() + 60000)
+  })
+
+  it('should not decode URLs without a valid access token', () => {
+    assert.equal(tokenExpiry('wss://localhost/apps/app'), null)
+    assert.equal(tokenExpiry('wss://localhost/apps/app?access_token=x'), null)
+    assert.equal(
+      tokenExpiry('wss://localhost/apps/app?access_token=a.b.c'),
+      null,
+    )
+    assert.equal(tokenExpiry('not a url'), null)
+  })
+
+  it('should decode the permissions of the access token of a URL', () => {
+    const permissions = ['realtime:subscriber:read:topic:*']
+    const token = getAuthToken('secret', 60, {permissions}, 'HS256')
+
+    assert.deepEqual(
+      tokenPermissions(`wss://localhost/apps/app?access_token=${token}`),
+      permissions,
+    )
+    assert.equal(tokenPermissions('wss://localhost/apps/app'), null)
+  })
+
+  it('should deliver messages once while renewing the session', async () => {
+    const pairs = [createMemoryTransportPair(), createMemoryTransportPair()]
+    const peers = pairs.map(([, peer]) => peer)
+    let endpoints = 0
+    let transports = 0
+    const client = new RealtimeClient({
+      websocketOptions: {
+        // Only the first session is renewed during the test
+        urlProvider: async () => ({
+          url: 'memory://',
+          expiresAt: Date.now() + (endpoints++ ? 60000 : 100),
+        }),
+      },
+      transport: () => pairs[transports++][0],
+      tokenRefresh: {margin: 50, overlap: 100},
+    })
+    const received: string[] = []
+    client.on('chat.text', (message: IncomingMessage) =>
+      received.push(message.data.payload),
+    )
+    const send = (
+      index: number,
+      topic: string,
+      messageType: string,
+      data: any,
+    ) => peers[index].send(JSON.stringify({topic, messageType, data}))
+    peers.forEach((peer) => peer.open())
+
+    const connected = client.connect()
+    send(0, 'main', 'welcome', {connection})
+    await connected
+    const renewed = new Promise<ConnectionInfo>((resolve) =>
+      client.once('session.started', resolve),
+    )
+    while (transports < 2) {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+    send(1, 'main', 'welcome', {connection: {...connection, id: 'c2'}})
+    assert.equal((await renewed).id, 'c2')
+
+    const acked = client.publish('chat', 'Hello', {id: 'm1'}).waitForAck(1000)
+    send(0, 'chat', 'text', {payload: 'Hi'})
+    send(1, 'chat', 'text', {payload: 'Hi'})
+    // Acknowledgements still in flight arrive through the previous connection
+    send(0, 'priv/acks', 'ack', {data: 'm1'})
+    await acked
+
+    assert.deepEqual(received, ['Hi'])
+    client.disconnect()
+  })
+
+  it('should keep the session when the renewal fails', async () => {
+    const [transport, peer] = createMemoryTransportPair()
+    let endpoints = 0
+    const client = new RealtimeClient({
+      websocketOptions: {
+        urlProvider: async () => {
+          if (endpoints++) {
+            throw new Error('Unavailable')
+          }
+          return {url: 'memory://', expiresAt: Date.now() + 60}
+        },
+      },
+      transport: () => transport,
+      tokenRefresh: {margin: 30},
+    })
+    peer.open()
+
+    const connected = client.connect()
+    peer.send(
+      JSON.stringify({
+        topic: 'main',
+        messageType: 'welcome',
+        data: {connection},
+      }),
+    )
+    await connected
+    await new Promise((resolve) => setTimeout(resolve, 80))
+
+    assert.equal(endpoints, 2)
+    assert.equal(client.state, 'open')
+    client.disconnect()
+  })
+})
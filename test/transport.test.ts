@@ -0,0 +1,90 @@
+import assert from 'assert/strict'
+import {
+  createMemoryTransportPair,
+  MemoryTransport,
+  TransportCloseEvent,
+} from '../libs'
+import {describe, it} from 'node:test'
+import {connection, createClient, tick} from './memory'
+
+describe('Transport Suite', () => {
+  it('should deliver frames in order once opened', async () => {
+    const [a, b] = createMemoryTransportPair()
+    const received: string[] = []
+    b.onmessage = ({data}) => received.push(data)
+
+    a.open()
+    b.open()
+    await Promise.resolve()
+    a.send('one')
+    a.send('two')
+    await tick()
+
+    assert.deepEqual(received, ['one', 'two'])
+  })
+
+  it('should close both ends with the same code and reason', async () => {
+    const [a, b] = createMemoryTransportPair()
+    const closed = new Promise<TransportCloseEvent>(
+      (resolve) => (b.onclose = resolve),
+    )
+
+    a.close(4001, 'Bye')
+
+    assert.deepEqual(await closed, {code: 4001, reason: 'Bye'})
+    assert.throws(() => a.send('late'), /not open/)
+  })
+
+  it('should send the exact frames of a client', async () => {
+    const {client, frames, receive} = createClient()
+    client.subscribeRemoteTopic('chat')
+    const connected = client.connect()
+    receive('main', 'welcome', {connection})
+    assert.deepEqual(await connected, connection)
+
+    const acked = client
+      .publish('chat', 'Hello', {id: 'm1', messageType: 'text'})
+      .waitForAck(1000)
+    await tick()
+    receive('priv/acks', 'ack', {data: 'm1'})
+    await acked
+
+    assert.deepEqual(frames, [
+      {type: 'subscribe', data: {topic: 'chat'}},
+      {
+        type: 'publish',
+        data: {topic: 'chat', messageType: 'text', payload: 'Hello', id: 'm1'},
+      },
+    ])
+    client.disconnect()
+  })
+
+  it('should close the client for good when the transport closes', async () => {
+    const {client, peer, receive} = createClient()
+    const connected = client.connect()
+    receive('main', 'welcome', {connection})
+    await connected
+
+    const closed = client.waitFor('close', 1000)
+    peer.close(1012, 'Service restart')
+    const [event] = (await closed) as [TransportCloseEvent]
+
+    assert.equal(event.reason, 'Service restart')
+    assert.equal(client.state, 'closed')
+  })
+
+  it('should buffer frames received before opening', async () => {
+    const [a, b] = createMemoryTransportPair()
+    const received: string[] = []
+    b.onmessage = ({data}) => received.push(data)
+
+    a.open()
+    await Promise.resolve()
+    a.send('early')
+    b.open(async () => 'memory://')
+    await tick()
+
+    assert.ok(b instanceof MemoryTransport)
+    assert.deepEqual(received, ['early'])
+  })
+})
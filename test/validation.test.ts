@@ -0,0 +1,157 @@
+import assert from 'assert/strict'
+import {InvalidMessageEvent, StandardSchemaV1, ValidationError} from '../libs'
+import {ValidationResult, Validators} from '../libs/validation'
+import {describe, it} from 'node:test'
+import {connectClient, tick} from './memory'
+
+describe('Validation Suite', () => {
+  /**
+   * Standard Schema validator accepting strings, trimmed.
+   */
+  const trimmed: StandardSchemaV1 = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) =>
+        typeof value === 'string'
+          ? {value: value.trim()}
+          : {issues: [{message: 'Expected a string'}]},
+    },
+  }
+
+  /**
+   * Validates a payload with synchronous validators.
+   */
+  const validate = (validators: Validators, key: string, payload: any) =>
+    validators.validate(key, payload) as ValidationResult
+
+  it('should validate with plain functions', async () => {
+    const validators = new Validators({
+      'clock.gettime': (payload) => typeof payload?.zone === 'string',
+      'clock.settime': (payload) =>
+        payload > 0 ? [] : [{message: 'Expected a timestamp', path: ['time']}],
+      'clock.reset': async () => {
+        throw new Error('Unavailable')
+      },
+    })
+
+    assert.deepEqual(validators.validate('clock.gettime', {zone: 'UTC'}), {
+      value: {zone: 'UTC'},
+      issues: [],
+    })
+    assert.deepEqual(validate(validators, 'clock.gettime', {}).issues, [
+      {message: 'Payload validation failed'},
+    ])
+    assert.deepEqual(validate(validators, 'clock.settime', -1).issues, [
+      {message: 'Expected a timestamp', path: ['time']},
+    ])
+    assert.deepEqual((await validators.validate('clock.reset', null)).issues, [
+      {message: 'Unavailable'},
+    ])
+    assert.equal(validators.validate('clock.tick', null), null)
+  })
+
+  it('should validate and transform with Standard Schema validators', () => {
+    const validators = new Validators({'chat.text': trimmed})
+
+    assert.deepEqual(validators.validate('chat.text', ' Hello '), {
+      value: 'Hello',
+      issues: [],
+    })
+    assert.deepEqual(validators.validate('chat.text', 42), {
+      value: 42,
+      issues: [{message: 'Expected a string'}],
+    })
+  })
+
+  it('should only unregister the current validator', () => {
+    const validators = new Validators()
+    const first = () => true
+    const second = () => false
+
+    validators.set('chat.text', first)
+    validators.set('chat.text', second)
+    validators.delete('chat.text', first)
+
+    assert.equal(validate(validators, 'chat.text', '').issues.length, 1)
+    validators.delete('chat.text', second)
+    assert.equal(validators.validate('chat.text', ''), null)
+  })
+
+  it('should reply to invalid requests with the validation issues', async () => {
+    const {client, frames, receive} = await connectClient({
+      validation: {validators: {'secure/inbound.text': trimmed}},
+    })
+    const invalid: InvalidMessageEvent[] = []
+    const received: string[] = []
+    client.on('message.invalid', (event) => invalid.push(event))
+    client.on('secure/inbound.text', (message) =>
+      received.push(message.data.payload),
+    )
+
+    const client1 = {connectionId: 'r1'}
+    receive('secure/inbound', 'text', {
+      id: 'm1',
+      payload: ' Hi ',
+      client: client1,
+    })
+    receive('secure/inbound', 'text', {id: 'm2', payload: 42, client: client1})
+    await tick()
+
+    assert.deepEqual(received, ['Hi'])
+    assert.equal(invalid.length, 1)
+    assert.equal(invalid[0].message.data.id, 'm2')
+    assert.deepEqual(
+      frames.map(({data}) => [data.topic, data.payload]),
+      [
+        [
+          'priv/r1',
+          {
+            id: 'm2',
+            status: 'error',
+            data: {
+              name: 'ValidationError',
+              message: 'Invalid payload: Expected a string',
+              issues: [{message: 'Expected a string'}],
+            },
+          },
+        ],
+      ],
+    )
+    client.disconnect()
+  })
+
+  it('should not reply to invalid requests when disabled', async () => {
+    const {client, frames, receive} = await connectClient({
+      validation: {
+        validators: {'secure/inbound.text': trimmed},
+        replyOnInvalid: false,
+      },
+    })
+
+    receive('secure/inbound', 'text', {
+      id: 'm1',
+      payload: 42,
+      client: {connectionId: 'r1'},
+    })
+    await tick()
+
+    assert.deepEqual(frames, [])
+    client.disconnect()
+  })
+
+  it('should reject invalid outgoing messages', async () => {
+    const {client, frames} = await connectClient({
+      validation: {validators: {'chat.text': trimmed}, outbound: true},
+    })
+
+    assert.throws(
+      () => client.publish('chat', 42, {messageType: 'text'}),
+      ValidationError,
+    )
+    await tick()
+
+    assert.deepEqual(frames, [])
+    client.disconnect()
+  })
+})